@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Bot, Loader2 } from 'lucide-react';
+import { aiProviderOptions, getAiSettings, useAiSettings, type AiProviderId } from '@/hooks/use-ai-settings';
+import { createCorrectionProvider } from '@/services/openai';
+import { toast } from '@/hooks/use-toast';
+
+const SAMPLE_TEXT = 'Tihs sentence was extracted from a scanned docu- ment.';
+
+// Local servers that speak the OpenAI API, with their default addresses
+const openAiPresets = [
+  { label: 'OpenAI', baseUrl: 'https://api.openai.com/v1' },
+  { label: 'llama.cpp', baseUrl: 'http://localhost:8080/v1' },
+  { label: 'LM Studio', baseUrl: 'http://localhost:1234/v1' },
+];
+
+export const AiSettingsDialog = () => {
+  const {
+    provider,
+    openai,
+    ollama,
+    fallbackToRules,
+    setAiProvider,
+    setOpenAiConfig,
+    setOllamaConfig,
+    setFallbackToRules,
+    resetAiSettings,
+  } = useAiSettings();
+  const [isTesting, setIsTesting] = useState(false);
+  const providerOption = aiProviderOptions.find((option) => option.id === provider);
+
+  const testProvider = async () => {
+    const correctionProvider = createCorrectionProvider(getAiSettings());
+    if (!correctionProvider) return;
+    setIsTesting(true);
+    try {
+      const corrected = await correctionProvider.correct(SAMPLE_TEXT, { signal: AbortSignal.timeout(60000) });
+      toast({ title: `${correctionProvider.label} is working`, description: corrected.trim() });
+    } catch (error) {
+      toast({
+        title: `${correctionProvider.label} is not reachable`,
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Bot className="h-4 w-4 mr-1" />
+          AI Provider
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Text correction provider</DialogTitle>
+          <DialogDescription>
+            Format Text sends the document to this provider one page at a time. Settings are stored in this browser only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="ai-provider">Provider</Label>
+          <Select value={provider} onValueChange={(value) => setAiProvider(value as AiProviderId)}>
+            <SelectTrigger id="ai-provider" className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {aiProviderOptions.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{providerOption?.description}</p>
+        </div>
+
+        {provider === 'openai' && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="openai-base-url">Base URL</Label>
+              <Input
+                id="openai-base-url"
+                value={openai.baseUrl}
+                onChange={(e) => setOpenAiConfig({ baseUrl: e.target.value })}
+                className="h-9 font-mono text-xs"
+              />
+              <div className="flex gap-1 flex-wrap">
+                {openAiPresets.map((preset) => (
+                  <Button
+                    key={preset.label}
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setOpenAiConfig({ baseUrl: preset.baseUrl })}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="openai-api-key">API key</Label>
+                <Input
+                  id="openai-api-key"
+                  type="password"
+                  value={openai.apiKey}
+                  onChange={(e) => setOpenAiConfig({ apiKey: e.target.value })}
+                  placeholder="Not needed for local servers"
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="openai-model">Model</Label>
+                <Input
+                  id="openai-model"
+                  value={openai.model}
+                  onChange={(e) => setOpenAiConfig({ model: e.target.value })}
+                  className="h-9"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {provider === 'ollama' && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="ollama-base-url">Server URL</Label>
+              <Input
+                id="ollama-base-url"
+                value={ollama.baseUrl}
+                onChange={(e) => setOllamaConfig({ baseUrl: e.target.value })}
+                className="h-9 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ollama-model">Model</Label>
+              <Input
+                id="ollama-model"
+                value={ollama.model}
+                onChange={(e) => setOllamaConfig({ model: e.target.value })}
+                className="h-9"
+              />
+            </div>
+          </div>
+        )}
+
+        {provider !== 'rules' && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="ai-fallback">Fall back to offline rules</Label>
+              <p className="text-xs text-muted-foreground">
+                Pages the provider fails on are corrected with the cleanup rules instead of stopping.
+              </p>
+            </div>
+            <Switch id="ai-fallback" checked={fallbackToRules} onCheckedChange={setFallbackToRules} />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {provider !== 'rules' && (
+            <Button variant="outline" size="sm" onClick={testProvider} disabled={isTesting}>
+              {isTesting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Test connection
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={resetAiSettings}>
+            Reset to defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
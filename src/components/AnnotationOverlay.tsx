@@ -0,0 +1,193 @@
+import { useState, type PointerEvent } from 'react';
+import { StickyNote } from 'lucide-react';
+import {
+  annotationColors,
+  INK_WIDTH,
+  NOTE_SIZE,
+  type Annotation,
+  type AnnotationColor,
+} from '@/services/annotations';
+import { unrotatePoint, type Point } from '@/services/pageGeometry';
+import type { PageSize } from '@/services/pageExtraction';
+
+export type AnnotationTool = 'select' | 'highlight' | 'note' | 'ink';
+
+// Points of a stroke closer than this to the previous one are dropped
+const MIN_POINT_DISTANCE = 1;
+
+interface AnnotationOverlayProps {
+  pageNumber: number;
+  annotations: Annotation[];
+  /** Unrotated size of the page */
+  pageSize: PageSize;
+  scale: number;
+  rotation: number;
+  tool: AnnotationTool;
+  color: AnnotationColor;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: (annotation: Annotation) => void;
+}
+
+const colorHex = (color: AnnotationColor) => annotationColors.find((entry) => entry.id === color).hex;
+
+// SVG transform from the unrotated page to the page as displayed
+const displayTransform = ({ width, height }: PageSize, rotation: number) => {
+  switch (rotation) {
+    case 90:
+      return `matrix(0 1 -1 0 ${height} 0)`;
+    case 180:
+      return `matrix(-1 0 0 -1 ${width} ${height})`;
+    case 270:
+      return `matrix(0 -1 1 0 0 ${width})`;
+    default:
+      return undefined;
+  }
+};
+
+const toPoints = (points: Point[]) => points.map(({ x, y }) => `${x},${y}`).join(' ');
+
+/**
+ * Annotations of one page, drawn over the rendered page. Notes and ink are
+ * added here; highlights come from text selections handled by the viewer.
+ */
+export const AnnotationOverlay = ({
+  pageNumber,
+  annotations,
+  pageSize,
+  scale,
+  rotation,
+  tool,
+  color,
+  selectedId,
+  onSelect,
+  onAdd,
+}: AnnotationOverlayProps) => {
+  const [stroke, setStroke] = useState<Point[] | null>(null);
+  const isDrawing = tool === 'note' || tool === 'ink';
+
+  const toPagePoint = (event: PointerEvent<SVGSVGElement>): Point => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return unrotatePoint(
+      { x: (event.clientX - bounds.left) / scale, y: (event.clientY - bounds.top) / scale },
+      pageSize,
+      rotation
+    );
+  };
+
+  const base = () => ({ id: crypto.randomUUID(), pageNumber, color, comment: '', createdAt: Date.now() });
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    if (tool === 'note') {
+      const annotation: Annotation = { ...base(), type: 'note', position: toPagePoint(event) };
+      onAdd(annotation);
+      onSelect(annotation.id);
+    } else if (tool === 'ink') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setStroke([toPagePoint(event)]);
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!stroke) return;
+    const point = toPagePoint(event);
+    const last = stroke[stroke.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) >= MIN_POINT_DISTANCE) {
+      setStroke([...stroke, point]);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (stroke && stroke.length > 1) {
+      onAdd({ ...base(), type: 'ink', points: stroke, width: INK_WIDTH });
+    }
+    setStroke(null);
+  };
+
+  const displayed = rotation % 180 !== 0 ? { width: pageSize.height, height: pageSize.width } : pageSize;
+
+  return (
+    <div className="absolute inset-0 z-20 pointer-events-none">
+      <svg
+        width={displayed.width * scale}
+        height={displayed.height * scale}
+        className={`absolute inset-0 ${isDrawing ? 'pointer-events-auto cursor-crosshair touch-none' : ''}`}
+        onPointerDown={isDrawing ? handlePointerDown : undefined}
+        onPointerMove={isDrawing ? handlePointerMove : undefined}
+        onPointerUp={isDrawing ? handlePointerUp : undefined}
+        onPointerCancel={() => setStroke(null)}
+      >
+        <g transform={`scale(${scale})`}>
+          <g transform={displayTransform(pageSize, rotation)}>
+            {annotations.map((annotation) => {
+              if (annotation.type === 'highlight') {
+                return (
+                  <g
+                    key={annotation.id}
+                    fill={colorHex(annotation.color)}
+                    className="mix-blend-multiply"
+                    opacity={annotation.id === selectedId ? 0.7 : 0.45}
+                  >
+                    {annotation.rects.map((rect, index) => (
+                      <rect key={index} x={rect.x} y={rect.y} width={rect.width} height={rect.height} />
+                    ))}
+                  </g>
+                );
+              }
+              if (annotation.type === 'ink') {
+                return (
+                  <polyline
+                    key={annotation.id}
+                    points={toPoints(annotation.points)}
+                    fill="none"
+                    stroke={colorHex(annotation.color)}
+                    strokeWidth={annotation.id === selectedId ? annotation.width * 2 : annotation.width}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                );
+              }
+              return null;
+            })}
+            {stroke && (
+              <polyline
+                points={toPoints(stroke)}
+                fill="none"
+                stroke={colorHex(color)}
+                strokeWidth={INK_WIDTH}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            )}
+          </g>
+        </g>
+      </svg>
+
+      {annotations.map((annotation) => {
+        if (annotation.type !== 'note') return null;
+        // Note icons stay upright, anchored at their corner as displayed
+        const corner = unrotatePoint(annotation.position, displayed, (360 - rotation) % 360);
+        return (
+          <button
+            key={annotation.id}
+            type="button"
+            className={`absolute pointer-events-auto flex items-center justify-center rounded-sm border shadow-sm ${annotation.id === selectedId ? 'ring-2 ring-primary' : ''}`}
+            style={{
+              left: corner.x * scale,
+              top: corner.y * scale,
+              width: NOTE_SIZE,
+              height: NOTE_SIZE,
+              backgroundColor: colorHex(annotation.color),
+            }}
+            title={annotation.comment || 'Note'}
+            aria-label={`Note on page ${pageNumber}`}
+            onClick={() => onSelect(annotation.id)}
+          >
+            <StickyNote className="h-3 w-3 text-foreground/70" />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
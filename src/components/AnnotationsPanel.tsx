@@ -0,0 +1,142 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Download, Highlighter, Loader2, PenLine, StickyNote, Trash2 } from 'lucide-react';
+import {
+  annotationColors,
+  annotationLabel,
+  type Annotation,
+  type AnnotationChanges,
+} from '@/services/annotations';
+
+interface AnnotationsPanelProps {
+  annotations: Annotation[];
+  selectedId: string | null;
+  onSelect: (annotation: Annotation) => void;
+  onUpdate: (id: string, changes: AnnotationChanges) => void;
+  onRemove: (id: string) => void;
+  onExport: () => void;
+  isExporting: boolean;
+}
+
+const typeIcons = {
+  highlight: Highlighter,
+  note: StickyNote,
+  ink: PenLine,
+};
+
+/**
+ * Annotations of the document by page. The selected one can be recolored,
+ * commented on and deleted.
+ */
+export const AnnotationsPanel = ({
+  annotations,
+  selectedId,
+  onSelect,
+  onUpdate,
+  onRemove,
+  onExport,
+  isExporting,
+}: AnnotationsPanelProps) => {
+  const itemRefs = useRef<Record<string, HTMLLIElement | null>>({});
+  const sorted = [...annotations].sort((a, b) => a.pageNumber - b.pageNumber || a.createdAt - b.createdAt);
+
+  useEffect(() => {
+    if (selectedId) itemRefs.current[selectedId]?.scrollIntoView({ block: 'nearest' });
+  }, [selectedId]);
+
+  return (
+    <div className="w-56 shrink-0 sticky top-4 self-start flex flex-col gap-2 max-h-[calc(100vh-2rem)]">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">Annotations</span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onExport}
+          disabled={!annotations.length || isExporting}
+          title="Download the PDF with these annotations"
+        >
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Select text with the highlighter, click to place a note, or draw with the pen.
+        </p>
+      ) : (
+        <ul className="min-h-0 flex-1 overflow-y-auto space-y-2 pr-1">
+          {sorted.map((annotation) => {
+            const Icon = typeIcons[annotation.type];
+            const isSelected = annotation.id === selectedId;
+            return (
+              <li
+                key={annotation.id}
+                ref={(element) => { itemRefs.current[annotation.id] = element; }}
+                className={`rounded-md border bg-card p-2 text-xs ${isSelected ? 'border-primary' : ''}`}
+              >
+                <button
+                  type="button"
+                  className="flex w-full items-start gap-2 text-left"
+                  onClick={() => onSelect(annotation)}
+                >
+                  <span
+                    className="mt-0.5 flex h-5 w-5 shrink-0 items-center justify-center rounded-sm"
+                    style={{ backgroundColor: annotationColors.find((color) => color.id === annotation.color).hex }}
+                  >
+                    <Icon className="h-3 w-3" />
+                  </span>
+                  <span className="min-w-0 flex-1">
+                    <span className="line-clamp-2 break-words">{annotationLabel(annotation)}</span>
+                    <span className="text-muted-foreground">Page {annotation.pageNumber}</span>
+                  </span>
+                </button>
+
+                {!isSelected && annotation.type !== 'note' && annotation.comment && (
+                  <p className="mt-1 line-clamp-2 text-muted-foreground">{annotation.comment}</p>
+                )}
+
+                {isSelected && (
+                  <div className="mt-2 space-y-2">
+                    <Textarea
+                      value={annotation.comment}
+                      onChange={(e) => onUpdate(annotation.id, { comment: e.target.value })}
+                      placeholder="Add a comment"
+                      className="min-h-16 text-xs"
+                      autoFocus={annotation.type === 'note' && !annotation.comment}
+                    />
+                    <div className="flex items-center justify-between">
+                      <div className="flex gap-1">
+                        {annotationColors.map((color) => (
+                          <button
+                            key={color.id}
+                            type="button"
+                            className={`h-4 w-4 rounded-full border ${annotation.color === color.id ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+                            style={{ backgroundColor: color.hex }}
+                            onClick={() => onUpdate(annotation.id, { color: color.id })}
+                            title={color.label}
+                            aria-label={color.label}
+                            aria-pressed={annotation.color === color.id}
+                          />
+                        ))}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => onRemove(annotation.id)}
+                        title="Delete annotation"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Settings2 } from 'lucide-react';
+import { useCleanupSettings } from '@/hooks/use-cleanup-settings';
+import {
+  cleanupPipelines,
+  cleanupRules,
+  pipelineLabels,
+  type CleanupPipeline,
+} from '@/services/textCleanup';
+import { pageSeparatorPresets } from '@/services/pageSeparators';
+
+const CUSTOM_SEPARATOR = 'custom';
+
+// Custom separators are edited on one line, with line breaks written as \n
+const escapeSeparator = (template: string) => template.replace(/\n/g, '\\n').replace(/\f/g, '\\f');
+const unescapeSeparator = (value: string) => value.replace(/\\n/g, '\n').replace(/\\f/g, '\f');
+
+const pipelinesForRule = (id: string) =>
+  (Object.keys(cleanupPipelines) as CleanupPipeline[]).filter((pipeline) =>
+    cleanupPipelines[pipeline].includes(id)
+  );
+
+export const CleanupSettingsDialog = () => {
+  const {
+    isRuleEnabled,
+    setRuleEnabled,
+    setCategoryEnabled,
+    pageSeparator,
+    setPageSeparator,
+    resetCleanupSettings,
+  } = useCleanupSettings();
+  const separatorPreset = pageSeparatorPresets.find((preset) => preset.template === pageSeparator);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="h-4 w-4 mr-1" />
+          Cleanup Rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Text cleanup rules</DialogTitle>
+          <DialogDescription>
+            Rules run in the order listed. Turn off resume rules when working with contracts or invoices.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2 flex-wrap">
+          <Button variant="outline" size="sm" onClick={() => setCategoryEnabled('resume', false)}>
+            Turn off resume rules
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCategoryEnabled('resume', true)}>
+            Turn on resume rules
+          </Button>
+          <Button variant="ghost" size="sm" onClick={resetCleanupSettings}>
+            Reset to defaults
+          </Button>
+        </div>
+
+        <div className="grid gap-2 sm:grid-cols-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="page-separator">Page separator</Label>
+            <Select
+              value={separatorPreset?.id ?? CUSTOM_SEPARATOR}
+              onValueChange={(value) => {
+                const preset = pageSeparatorPresets.find((item) => item.id === value);
+                setPageSeparator(preset ? preset.template : '\n\n=== {page} ===\n\n');
+              }}
+            >
+              <SelectTrigger id="page-separator" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pageSeparatorPresets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_SEPARATOR}>Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {!separatorPreset && (
+            <Input
+              value={escapeSeparator(pageSeparator)}
+              onChange={(e) => setPageSeparator(unescapeSeparator(e.target.value))}
+              aria-label="Custom page separator"
+              title="{page} is replaced with the page number, \n with a line break"
+              className="h-9 font-mono text-xs"
+            />
+          )}
+        </div>
+
+        <div className="max-h-[60vh] overflow-auto divide-y border rounded-lg">
+          {cleanupRules.map((rule) => (
+            <div key={rule.id} className="flex items-start justify-between gap-4 p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium">{rule.name}</span>
+                  {rule.category === 'resume' && <Badge variant="secondary">Resume</Badge>}
+                  {pipelinesForRule(rule.id).map((pipeline) => (
+                    <Badge key={pipeline} variant="outline">{pipelineLabels[pipeline]}</Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{rule.description}</p>
+                <p className="text-xs text-muted-foreground">
+                  Runs on: {rule.input.join(', ')} text
+                  {rule.output && ` · produces ${rule.output} text`}
+                </p>
+              </div>
+              <Switch
+                checked={isRuleEnabled(rule.id)}
+                onCheckedChange={(checked) => setRuleEnabled(rule.id, checked)}
+                aria-label={`Toggle ${rule.name}`}
+              />
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,129 @@
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, CheckCircle2, FileText, HardDrive, Library, Loader2, X } from 'lucide-react';
+import { formatBytes } from '@/lib/utils';
+import type { WorkspaceDocument } from '@/hooks/use-workspace';
+import type { StorageUsage } from '@/services/documentStorage';
+
+interface DocumentLibraryProps {
+  documents: WorkspaceDocument[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  isRestoring?: boolean;
+  storageUsage?: StorageUsage | null;
+}
+
+const StatusBadge = ({ document }: { document: WorkspaceDocument }) => {
+  switch (document.status) {
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" aria-label="Extracted" />;
+    case 'error':
+      return <AlertCircle className="h-4 w-4 text-destructive" aria-label="Failed to load" />;
+    case 'extracting':
+      return (
+        <span className="flex items-center gap-1 text-xs">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {document.documentModel.pages.length}/{document.numPages}
+        </span>
+      );
+    default:
+      return <span className="text-xs text-muted-foreground">Pending</span>;
+  }
+};
+
+const StorageIndicator = ({ storageUsage }: { storageUsage: StorageUsage }) => {
+  const percent = storageUsage.quota > 0 ? (storageUsage.usage / storageUsage.quota) * 100 : 0;
+  return (
+    <div className="space-y-2 px-2 py-1">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <HardDrive className="h-3 w-3" />
+        <span>
+          {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used
+        </span>
+      </div>
+      <Progress value={percent} className="h-1.5" />
+    </div>
+  );
+};
+
+export const DocumentLibrary = ({
+  documents,
+  activeId,
+  onSelect,
+  onRemove,
+  isRestoring,
+  storageUsage,
+}: DocumentLibraryProps) => {
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-2 py-1">
+          <Library className="h-4 w-4" />
+          <span className="font-semibold text-sm">Document Library</span>
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>
+            Recent documents ({documents.length})
+          </SidebarGroupLabel>
+          <SidebarGroupContent>
+            {isRestoring ? (
+              <p className="flex items-center gap-2 px-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Restoring last session...
+              </p>
+            ) : documents.length === 0 ? (
+              <p className="px-2 text-xs text-muted-foreground">Uploaded PDFs are saved in this browser and will appear here.</p>
+            ) : (
+              <SidebarMenu>
+                {documents.map((document) => (
+                  <SidebarMenuItem key={document.id}>
+                    <SidebarMenuButton
+                      isActive={document.id === activeId}
+                      onClick={() => onSelect(document.id)}
+                      tooltip={document.file.name}
+                      className="pr-16"
+                    >
+                      <FileText />
+                      <span>{document.file.name}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuBadge className="right-7">
+                      <StatusBadge document={document} />
+                    </SidebarMenuBadge>
+                    <SidebarMenuAction
+                      onClick={() => onRemove(document.id)}
+                      aria-label={`Delete ${document.file.name}`}
+                      showOnHover
+                    >
+                      <X />
+                    </SidebarMenuAction>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      {storageUsage && (
+        <SidebarFooter>
+          <StorageIndicator storageUsage={storageUsage} />
+        </SidebarFooter>
+      )}
+    </Sidebar>
+  );
+};
@@ -0,0 +1,150 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Check, X } from 'lucide-react';
+import { applyHunks, diffText, type DiffHunk } from '@/services/textDiff';
+
+interface FormatReviewDialogProps {
+  title: string;
+  original: string;
+  proposed: string;
+  /** Column headings, by default for a formatter run */
+  originalLabel?: string;
+  proposedLabel?: string;
+  onApply: (text: string, acceptedCount: number) => void;
+  onCancel: () => void;
+}
+
+// Characters of unchanged text shown on either side of a hunk
+const CONTEXT_LENGTH = 40;
+
+// Line breaks are easy to miss when they are the whole change
+const showBreaks = (text: string) => text.replace(/\n/g, '↵\n');
+
+const contextBefore = (text: string, hunk: DiffHunk) => {
+  const context = text.slice(Math.max(0, hunk.start - CONTEXT_LENGTH), hunk.start);
+  return hunk.start > CONTEXT_LENGTH ? `…${context.replace(/^\S*\s/, '')}` : context;
+};
+
+const contextAfter = (text: string, hunk: DiffHunk) => {
+  const context = text.slice(hunk.end, hunk.end + CONTEXT_LENGTH);
+  return hunk.end + CONTEXT_LENGTH < text.length ? `${context.replace(/\s\S*$/, '')}…` : context;
+};
+
+/**
+ * Side-by-side review of the changes a formatter or a snapshot would make,
+ * accepted or rejected one by one. Nothing changes until the accepted ones are applied.
+ */
+export const FormatReviewDialog = ({
+  title,
+  original,
+  proposed,
+  originalLabel = 'Current text',
+  proposedLabel = 'Formatted text',
+  onApply,
+  onCancel,
+}: FormatReviewDialogProps) => {
+  const hunks = useMemo(() => diffText(original, proposed), [original, proposed]);
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set());
+
+  const setHunkAccepted = (index: number, isAccepted: boolean) => {
+    setAccepted((current) => {
+      const next = new Set(current);
+      if (isAccepted) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {hunks.length} proposed {hunks.length === 1 ? 'change' : 'changes'}. Only the changes you accept are applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-2 px-3 text-xs font-medium text-muted-foreground">
+          <span>{originalLabel}</span>
+          <span>{proposedLabel}</span>
+          <span className="w-[4.25rem]" />
+        </div>
+        <div className="max-h-[60vh] overflow-auto divide-y border rounded-lg">
+          {hunks.map((hunk) => {
+            const before = contextBefore(original, hunk);
+            const after = contextAfter(original, hunk);
+            const isAccepted = accepted.has(hunk.index);
+            return (
+              <div key={hunk.index} className="grid grid-cols-[1fr_1fr_auto] gap-2 p-3 items-start">
+                <div className={`whitespace-pre-wrap break-words font-mono text-xs ${isAccepted ? 'opacity-50' : ''}`}>
+                  <span className="text-muted-foreground">{before}</span>
+                  <del className="no-underline rounded-sm bg-red-200 dark:bg-red-900">{showBreaks(hunk.original)}</del>
+                  <span className="text-muted-foreground">{after}</span>
+                </div>
+                <div className={`whitespace-pre-wrap break-words font-mono text-xs ${isAccepted ? '' : 'opacity-50'}`}>
+                  <span className="text-muted-foreground">{before}</span>
+                  <ins className="no-underline rounded-sm bg-green-200 dark:bg-green-900">{showBreaks(hunk.proposed)}</ins>
+                  <span className="text-muted-foreground">{after}</span>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant={isAccepted ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => setHunkAccepted(hunk.index, true)}
+                    aria-pressed={isAccepted}
+                    aria-label={`Accept change ${hunk.index + 1}`}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant={isAccepted ? 'outline' : 'secondary'}
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => setHunkAccepted(hunk.index, false)}
+                    aria-pressed={!isAccepted}
+                    aria-label={`Reject change ${hunk.index + 1}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAccepted(new Set(hunks.map((hunk) => hunk.index)))}>
+              Accept all
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setAccepted(new Set())}>
+              Reject all
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => onApply(applyHunks(original, hunks, accepted), accepted.size)}
+              disabled={!accepted.size}
+            >
+              Apply {accepted.size} of {hunks.length}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,156 @@
+import { forwardRef, useImperativeHandle, useLayoutEffect, useRef, type FocusEvent, type KeyboardEvent, type ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+export interface TextHighlight {
+  start: number;
+  end: number;
+  className: string;
+  title?: string;
+}
+
+interface HighlightedTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Ranges of the value to mark; where they overlap, the classes of all of them apply */
+  highlights?: TextHighlight[];
+  readOnly?: boolean;
+  /** Number the lines of the text in a gutter on the left */
+  lineNumbers?: boolean;
+  /** Wrap long lines; without it they scroll sideways */
+  wrap?: boolean;
+  /** Grow with the text instead of scrolling */
+  autoResize?: boolean;
+  onKeyDown?: (event: KeyboardEvent<HTMLTextAreaElement>) => void;
+  onFocus?: (event: FocusEvent<HTMLTextAreaElement>) => void;
+  className?: string;
+  'aria-label'?: string;
+}
+
+/**
+ * Stretches of the text between highlight boundaries, with the highlights covering each
+ */
+const splitSegments = (value: string, highlights: TextHighlight[]) => {
+  const boundaries = new Set([0, value.length]);
+  highlights.forEach(({ start, end }) => {
+    boundaries.add(Math.max(0, Math.min(start, value.length)));
+    boundaries.add(Math.max(0, Math.min(end, value.length)));
+  });
+  const points = [...boundaries].sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, index) => ({
+    start,
+    end: points[index + 1],
+    highlights: highlights.filter((highlight) => highlight.start <= start && highlight.end >= points[index + 1]),
+  }));
+};
+
+/**
+ * A textarea with ranges of its text styled. The text is drawn on a copy
+ * behind the transparent textarea, laid out and scrolled the same way, so
+ * styles must not change the width of the text: colors, backgrounds and the
+ * weight of the monospace font only.
+ */
+export const HighlightedTextarea = forwardRef<HTMLTextAreaElement, HighlightedTextareaProps>(({
+  value,
+  onChange,
+  highlights = [],
+  readOnly,
+  lineNumbers,
+  wrap = true,
+  autoResize,
+  onKeyDown,
+  onFocus,
+  className,
+  'aria-label': ariaLabel,
+}, ref) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  useImperativeHandle(ref, () => textareaRef.current);
+
+  // Fit the height to the text, again whenever the width changes how it wraps
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!autoResize || !textarea) return;
+    const fit = () => {
+      textarea.style.height = 'auto';
+      textarea.style.height = `${textarea.scrollHeight + textarea.offsetHeight - textarea.clientHeight}px`;
+    };
+    fit();
+    const observer = new ResizeObserver(fit);
+    observer.observe(textarea);
+    return () => observer.disconnect();
+  }, [autoResize, value, wrap, lineNumbers]);
+
+  const segments = splitSegments(value, highlights);
+  const renderRange = (start: number, end: number): ReactNode[] =>
+    segments
+      .filter((segment) => segment.end > start && segment.start < end)
+      .map((segment) => {
+        const text = value.slice(Math.max(segment.start, start), Math.min(segment.end, end));
+        if (!segment.highlights.length) return text;
+        return (
+          <mark
+            key={segment.start}
+            className={cn('rounded-sm bg-transparent text-inherit', ...segment.highlights.map((highlight) => highlight.className))}
+            title={segment.highlights.find((highlight) => highlight.title)?.title}
+          >
+            {text}
+          </mark>
+        );
+      });
+
+  let lineStart = 0;
+  const lines = value.split('\n').map((line, index) => {
+    const start = lineStart;
+    lineStart += line.length + 1;
+    return (
+      <div key={index} className="relative">
+        {lineNumbers && (
+          <span className="absolute right-full mr-3 select-none text-right text-muted-foreground/60">{index + 1}</span>
+        )}
+        {/* An empty line needs content to take up a line */}
+        {line ? renderRange(start, start + line.length) : ' '}
+      </div>
+    );
+  });
+
+  const layout = cn(wrap ? 'whitespace-pre-wrap break-words' : 'whitespace-pre', lineNumbers && 'pl-12');
+  // Both keep a vertical scrollbar when scrolling, so the text wraps at the same width
+  const overflow = autoResize ? 'overflow-hidden' : 'overflow-y-scroll';
+
+  return (
+    <div className="relative">
+      <div
+        ref={backdropRef}
+        aria-hidden="true"
+        className={cn(className, layout, overflow, 'absolute inset-0 pointer-events-none')}
+      >
+        {lines}
+      </div>
+      <textarea
+        ref={textareaRef}
+        className={cn(
+          className,
+          layout,
+          !wrap && autoResize ? 'overflow-y-hidden overflow-x-auto' : overflow,
+          'relative block bg-transparent text-transparent caret-foreground selection:bg-primary/20 selection:text-transparent'
+        )}
+        value={value}
+        readOnly={readOnly}
+        wrap={wrap ? 'soft' : 'off'}
+        rows={1}
+        aria-label={ariaLabel}
+        onKeyDown={onKeyDown}
+        onFocus={onFocus}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (!backdropRef.current) return;
+          backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          backdropRef.current.scrollLeft = e.currentTarget.scrollLeft;
+        }}
+        spellCheck={false}
+      />
+    </div>
+  );
+});
+
+HighlightedTextarea.displayName = 'HighlightedTextarea';
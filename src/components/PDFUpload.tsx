@@ -1,41 +1,47 @@
 import { useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { useDropzone, type FileRejection } from 'react-dropzone';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Upload, FileText } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 interface PDFUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   selectedFile: File | null;
+  documentCount?: number;
 }
 
-export const PDFUpload = ({ onFileSelect, selectedFile }: PDFUploadProps) => {
+export const PDFUpload = ({ onFilesSelect, selectedFile, documentCount = 0 }: PDFUploadProps) => {
   const { toast } = useToast();
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file && file.type === 'application/pdf') {
-      onFileSelect(file);
+  const onDrop = useCallback((acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
+    const pdfFiles = acceptedFiles.filter((file) => file.type === 'application/pdf');
+    const rejectedCount = rejectedFiles.length + acceptedFiles.length - pdfFiles.length;
+
+    if (pdfFiles.length > 0) {
+      onFilesSelect(pdfFiles);
       toast({
-        title: "PDF uploaded successfully",
-        description: `File: ${file.name}`,
+        title: pdfFiles.length === 1 ? "PDF uploaded successfully" : `${pdfFiles.length} PDFs uploaded successfully`,
+        description: pdfFiles.length === 1
+          ? `File: ${pdfFiles[0].name}`
+          : `Showing ${pdfFiles[0].name}; the others are in the library`,
       });
-    } else {
+    }
+    if (rejectedCount > 0) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a PDF file",
+        description: `${rejectedCount} ${rejectedCount === 1 ? 'file was' : 'files were'} skipped. Please upload PDF files`,
         variant: "destructive",
       });
     }
-  }, [onFileSelect, toast]);
+  }, [onFilesSelect, toast]);
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+  const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
     onDrop,
     accept: {
       'application/pdf': ['.pdf']
     },
-    multiple: false
+    multiple: true
   });
 
   return (
@@ -61,26 +67,27 @@ export const PDFUpload = ({ onFileSelect, selectedFile }: PDFUploadProps) => {
               </p>
               <p className="text-xs text-muted-foreground mb-4">
                 {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                {documentCount > 1 && ` · ${documentCount} documents in library`}
               </p>
               <Button 
                 variant="outline" 
                 size="sm"
                 onClick={(e) => {
                   e.stopPropagation();
-                  // Trigger file input
+                  open();
                 }}
               >
-                Choose different file
+                Add more files
               </Button>
             </div>
           ) : (
             <div className="flex flex-col items-center text-center">
               <Upload className="h-12 w-12 text-muted-foreground mb-4" />
               <p className="text-sm font-medium text-foreground mb-2">
-                {isDragActive ? 'Drop the PDF here' : 'Upload PDF'}
+                {isDragActive ? 'Drop the PDFs here' : 'Upload PDFs'}
               </p>
               <p className="text-xs text-muted-foreground mb-4">
-                Drag and drop a PDF file here, or click to browse
+                Drag and drop one or more PDF files here, or click to browse
               </p>
               <Button variant="outline" size="sm">
                 Choose file
@@ -1,10 +1,54 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { Document, Page, pdfjs } from 'react-pdf';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Document, Page, pdfjs, type PageProps } from 'react-pdf';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ZoomIn, ZoomOut, RotateCw } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Progress } from '@/components/ui/progress';
+import {
+  ZoomIn,
+  ZoomOut,
+  RotateCw,
+  ScanText,
+  Loader2,
+  Search,
+  PanelLeftClose,
+  PanelLeftOpen,
+  Columns2,
+  LayoutGrid,
+  MousePointer2,
+  Highlighter,
+  StickyNote,
+  PenLine,
+  MessageSquare,
+  EyeOff,
+} from 'lucide-react';
+import { SearchBar } from '@/components/SearchBar';
+import { PageNavigationPanel } from '@/components/PageNavigationPanel';
+import { AnnotationOverlay, type AnnotationTool } from '@/components/AnnotationOverlay';
+import { AnnotationsPanel } from '@/components/AnnotationsPanel';
+import { RedactionBar } from '@/components/RedactionBar';
+import { RedactionOverlay } from '@/components/RedactionOverlay';
 import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/utils';
+import {
+  annotationColors,
+  exportAnnotatedPdf,
+  mergeLineRects,
+  type Annotation,
+  type AnnotationChanges,
+  type AnnotationColor,
+} from '@/services/annotations';
+import { getPage, type BoundingBox, type DocumentModel } from '@/services/documentModel';
+import { detectColumnLayout, type ColumnRegion } from '@/services/readingOrder';
+import { defaultSearchOptions, highlightItem, searchDocument, type SearchMatch, type SearchOptions } from '@/services/search';
+import type { PageSize } from '@/services/pageExtraction';
+import { rotateBox, unrotateRect } from '@/services/pageGeometry';
+import { redactPdf, redactionsFromMatches, textInRect, type Redaction } from '@/services/redaction';
+import type { ExtractionProgress, OcrPageState } from '@/services/textExtraction';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 
 // Import required CSS for text layer
 import 'react-pdf/dist/Page/AnnotationLayer.css';
@@ -16,204 +60,517 @@ pdfjs.GlobalWorkerOptions.workerSrc = new URL(
   import.meta.url,
 ).toString();
 
+// Pages closer than this to the viewport are mounted
+const RENDER_MARGIN = '1200px 0px';
+
 interface PDFViewerProps {
   file: File;
-  onTextExtracted: (text: string, pageNumber?: number) => void;
+  onDocumentLoaded?: (numPages: number) => void;
+  onDocumentError?: (error: Error) => void;
+  /** Extracted text of the document, searched by the search bar and used to size unrendered pages */
+  documentModel?: DocumentModel;
+  /** Background text extraction progress, null when idle */
+  extractionProgress?: ExtractionProgress | null;
+  ocrPages?: Record<number, OcrPageState>;
+  /** Whether the document is read column by column; shows the detected columns */
+  columnLayout?: boolean;
+  onColumnLayoutChange?: (enabled: boolean) => void;
+  /** Switch to the page organizer */
+  onOrganizePages?: () => void;
+  /** Highlights, notes and drawings of the document; the annotation tools show when they can be added */
+  annotations?: Annotation[];
+  onAnnotationAdd?: (annotation: Annotation) => void;
+  onAnnotationUpdate?: (id: string, changes: AnnotationChanges) => void;
+  onAnnotationRemove?: (id: string) => void;
+  /** Areas marked for removal; redaction mode shows when they can be added */
+  redactions?: Redaction[];
+  onRedactionsAdd?: (redactions: Redaction[]) => void;
+  onRedactionRemove?: (id: string) => void;
+  onRedactionsClear?: () => void;
+  /** Told which page is in view, to follow it in the text panel */
+  onCurrentPageChange?: (pageNumber: number) => void;
+  /** Page to bring into view; each new request scrolls to it again */
+  pageRequest?: { pageNumber: number } | null;
+}
+
+const OcrBadge = ({ state }: { state: OcrPageState }) => {
+  if (state.status === 'running') {
+    return (
+      <Badge variant="outline" className="gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Running OCR
+      </Badge>
+    );
+  }
+  if (state.status === 'failed') {
+    return <Badge variant="destructive">OCR failed</Badge>;
+  }
+  const confidence = Math.round(state.confidence ?? 0);
+  return (
+    <Badge
+      variant={confidence >= 80 ? 'secondary' : 'outline'}
+      className={`gap-1 ${confidence < 60 ? 'text-destructive border-destructive' : ''}`}
+      title="Text recognized with OCR; mean word confidence"
+    >
+      <ScanText className="h-3 w-3" />
+      OCR {confidence}%
+    </Badge>
+  );
+};
+
+interface ColumnOverlayProps {
+  regions: ColumnRegion[];
+  pageSize: PageSize;
+  scale: number;
+  rotation: number;
+}
+
+const ColumnOverlay = ({ regions, pageSize, scale, rotation }: ColumnOverlayProps) => (
+  <div className="absolute inset-0 z-10 pointer-events-none" aria-hidden="true">
+    {regions.map((region) => {
+      const box = rotateBox(region.bbox, pageSize, rotation);
+      return (
+        <div
+          key={region.order}
+          className={`absolute rounded-sm border-2 ${region.fullWidth ? 'border-dashed border-muted-foreground/60' : 'border-primary/70 bg-primary/5'}`}
+          style={{ left: box.x * scale, top: box.y * scale, width: box.width * scale, height: box.height * scale }}
+        >
+          <span className="absolute top-0.5 left-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] text-primary-foreground">
+            {region.order}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+interface SearchBoxOverlayProps {
+  boxes: { box: BoundingBox; active: boolean }[];
+  /** Unrotated size of the page */
+  pageSize: PageSize;
+  scale: number;
+  rotation: number;
 }
 
-export const PDFViewer = ({ file, onTextExtracted }: PDFViewerProps) => {
+// Matches in text read by OCR, which has no text layer items to mark, drawn as boxes over the page
+const SearchBoxOverlay = ({ boxes, pageSize, scale, rotation }: SearchBoxOverlayProps) => (
+  <div className="absolute inset-0 z-10 pointer-events-none" aria-hidden="true">
+    {boxes.map(({ box: rect, active }, index) => {
+      const box = rotateBox(rect, pageSize, rotation);
+      return (
+        <div
+          key={index}
+          className={`absolute rounded-sm ${active ? 'search-highlight-active' : ''}`}
+          style={{
+            left: box.x * scale,
+            top: box.y * scale,
+            width: box.width * scale,
+            height: box.height * scale,
+            backgroundColor: `hsl(var(${active ? '--search-highlight-active' : '--search-highlight'}))`,
+          }}
+        />
+      );
+    })}
+  </div>
+);
+
+export const PDFViewer = ({
+  file,
+  onDocumentLoaded,
+  onDocumentError,
+  documentModel,
+  extractionProgress,
+  ocrPages = {},
+  columnLayout = false,
+  onColumnLayoutChange,
+  onOrganizePages,
+  annotations = [],
+  onAnnotationAdd,
+  onAnnotationUpdate,
+  onAnnotationRemove,
+  redactions = [],
+  onRedactionsAdd,
+  onRedactionRemove,
+  onRedactionsClear,
+  onCurrentPageChange,
+  pageRequest,
+}: PDFViewerProps) => {
   const [numPages, setNumPages] = useState<number>(0);
+  const [defaultPageSize, setDefaultPageSize] = useState<PageSize>({ width: 612, height: 792 });
+  const [visiblePages, setVisiblePages] = useState<Set<number>>(() => new Set([1]));
   const [scale, setScale] = useState<number>(1.2);
   const [rotation, setRotation] = useState<number>(0);
-  const [allText, setAllText] = useState<string>('');
-  const extractedTextRef = useRef<{[key: number]: string}>({});
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [isNavigationOpen, setIsNavigationOpen] = useState(true);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(defaultSearchOptions);
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('select');
+  const [annotationColor, setAnnotationColor] = useState<AnnotationColor>('yellow');
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [isAnnotationsOpen, setIsAnnotationsOpen] = useState(false);
+  const [isExportingAnnotations, setIsExportingAnnotations] = useState(false);
+  const [isRedacting, setIsRedacting] = useState(false);
+  const [isExportingRedacted, setIsExportingRedacted] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const pageRefs = useRef<Record<number, HTMLDivElement | null>>({});
   const { toast } = useToast();
 
-  const onDocumentLoadSuccess = useCallback(({ numPages }: { numPages: number }) => {
+  const onDocumentLoadSuccess = useCallback((document: PDFDocumentProxy) => {
+    const { numPages } = document;
     setNumPages(numPages);
+    document.getPage(1)
+      .then((page) => {
+        const { width, height } = page.getViewport({ scale: 1 });
+        setDefaultPageSize({ width, height });
+      })
+      .catch((error) => console.error('Failed to read page size:', error));
+    onDocumentLoaded?.(numPages);
     toast({
       title: "PDF loaded successfully",
       description: `Document has ${numPages} pages`,
     });
-  }, [toast]);
+  }, [toast, onDocumentLoaded]);
 
   const onDocumentLoadError = useCallback((error: Error) => {
     console.error('PDF load error:', error);
+    onDocumentError?.(error);
     toast({
       title: "Error loading PDF",
       description: "Failed to load the PDF document",
       variant: "destructive",
     });
-  }, [toast]);
+  }, [toast, onDocumentError]);
 
-  const onPageLoadSuccess = useCallback((page: any, pageIndex: number) => {
-    // Extract and format text from the current page
-    page.getTextContent().then((textContent: any) => {
-      const pageText = formatTextContent(textContent);
-      const pageNumber = pageIndex + 1;
-      
-      // Store text for this page
-      extractedTextRef.current[pageNumber] = pageText;
-      
-      // Combine all extracted text in page order
-      const combinedText = Object.entries(extractedTextRef.current)
-        .sort(([pageA], [pageB]) => parseInt(pageA) - parseInt(pageB))
-        .map(([_, text]) => text)
-        .join('\n\n');
-      
-      setAllText(combinedText);
-      onTextExtracted(combinedText);
-    });
-  }, [onTextExtracted]);
-  
-  // Update combined text whenever pages are loaded
+  // Track which page slots are near the viewport so only those mount a <Page>
+  const observerRef = useRef<IntersectionObserver | null>(null);
   useEffect(() => {
-    if (Object.keys(extractedTextRef.current).length > 0) {
-      const combinedText = Object.entries(extractedTextRef.current)
-        .sort(([pageA], [pageB]) => parseInt(pageA) - parseInt(pageB))
-        .map(([_, text]) => text)
-        .join('\n\n');
-      
-      setAllText(combinedText);
-      onTextExtracted(combinedText);
-    }
-  }, [extractedTextRef.current, onTextExtracted]);
+    const observer = new IntersectionObserver((entries) => {
+      setVisiblePages(prev => {
+        const next = new Set(prev);
+        entries.forEach((entry) => {
+          const pageNumber = Number((entry.target as HTMLElement).dataset.pageNumber);
+          if (entry.isIntersecting) {
+            next.add(pageNumber);
+          } else {
+            next.delete(pageNumber);
+          }
+        });
+        const changed = next.size !== prev.size || [...next].some((pageNumber) => !prev.has(pageNumber));
+        return changed ? next : prev;
+      });
+    }, { rootMargin: RENDER_MARGIN });
+    observerRef.current = observer;
+    Object.values(pageRefs.current).forEach((element) => element && observer.observe(element));
+    return () => observer.disconnect();
+  }, []);
 
+  // One stable ref callback per page so slots are not re-observed on every render
+  const pageRefCallbacks = useRef<Record<number, (element: HTMLDivElement | null) => void>>({});
+  const getPageRef = (pageNumber: number) => {
+    pageRefCallbacks.current[pageNumber] ??= (element) => {
+      const previous = pageRefs.current[pageNumber];
+      if (previous) observerRef.current?.unobserve(previous);
+      pageRefs.current[pageNumber] = element;
+      if (element) observerRef.current?.observe(element);
+    };
+    return pageRefCallbacks.current[pageNumber];
+  };
 
+  // Unscaled size of a page before the view is rotated, known once its text is extracted
+  const getUnrotatedPageSize = (pageNumber: number): PageSize => {
+    const { width, height } = (documentModel && getPage(documentModel, pageNumber)) ?? defaultPageSize;
+    return { width, height };
+  };
 
-  const zoomIn = () => {
-    setScale(Math.min(3, scale + 0.2));
+  // Unscaled size of a page as displayed
+  const getPageSize = (pageNumber: number): PageSize => {
+    const { width, height } = getUnrotatedPageSize(pageNumber);
+    return rotation % 180 !== 0 ? { width: height, height: width } : { width, height };
   };
 
-  const zoomOut = () => {
-    setScale(Math.max(0.5, scale - 0.2));
+  // Placeholder size for pages that are not mounted, in screen pixels
+  const getSlotSize = (pageNumber: number) => {
+    const { width, height } = getPageSize(pageNumber);
+    return { width: width * scale, height: height * scale };
   };
 
-  const rotate = () => {
-    setRotation((rotation + 90) % 360);
+  // Detected column regions by page, shown while column reading order is on
+  const columnRegions = useMemo(() => {
+    const byPage = new Map<number, ColumnRegion[]>();
+    if (!columnLayout || !documentModel) return byPage;
+    documentModel.pages.forEach((page) => {
+      const layout = detectColumnLayout(page);
+      if (layout) byPage.set(page.pageNumber, layout.regions);
+    });
+    return byPage;
+  }, [columnLayout, documentModel]);
+
+  const annotationsByPage = useMemo(() => {
+    const byPage = new Map<number, Annotation[]>();
+    annotations.forEach((annotation) => {
+      byPage.set(annotation.pageNumber, [...(byPage.get(annotation.pageNumber) ?? []), annotation]);
+    });
+    return byPage;
+  }, [annotations]);
+
+  const selectAnnotation = (id: string) => {
+    setSelectedAnnotationId(id);
+    setIsAnnotationsOpen(true);
   };
 
-  // Reconstruct lines and paragraphs from PDF text items
-  const formatTextContent = (textContent: any) => {
-    const items = textContent.items || [];
-    const mapped = items.map((it: any) => ({
-      str: it.str,
-      x: (it.transform?.[4] ?? it.x ?? 0),
-      y: (it.transform?.[5] ?? it.y ?? 0),
-    })).sort((a: any, b: any) => (b.y - a.y) || (a.x - b.x));
-
-    const lines: { y: number; text: string[] }[] = [];
-    const yThreshold = 4;
-
-    mapped.forEach((it) => {
-      const last = lines[lines.length - 1];
-      if (!last || Math.abs(last.y - it.y) > yThreshold) {
-        lines.push({ y: it.y, text: [it.str] });
-      } else {
-        const prev = last.text[last.text.length - 1] ?? '';
-        const needsSpace = prev && !prev.endsWith(' ') && !it.str.startsWith(' ');
-        last.text.push((needsSpace ? ' ' : '') + it.str);
-      }
+  // Turn the text selected on a page into a highlight, one box per line
+  const highlightSelection = (pageNumber: number, element: HTMLElement) => {
+    const selection = window.getSelection();
+    if (!onAnnotationAdd || !selection || selection.isCollapsed || !selection.rangeCount) return;
+    const bounds = element.getBoundingClientRect();
+    const pageSize = getUnrotatedPageSize(pageNumber);
+    const rects = Array.from(selection.getRangeAt(0).getClientRects())
+      .filter((rect) => rect.right > bounds.left && rect.left < bounds.right && rect.bottom > bounds.top && rect.top < bounds.bottom)
+      .map((rect) => unrotateRect(
+        { x: (rect.left - bounds.left) / scale, y: (rect.top - bounds.top) / scale },
+        { x: (rect.right - bounds.left) / scale, y: (rect.bottom - bounds.top) / scale },
+        pageSize,
+        rotation
+      ));
+    const lines = mergeLineRects(rects);
+    if (!lines.length) return;
+
+    onAnnotationAdd({
+      id: crypto.randomUUID(),
+      type: 'highlight',
+      pageNumber,
+      color: annotationColor,
+      comment: '',
+      createdAt: Date.now(),
+      rects: lines,
+      text: selection.toString().replace(/\s+/g, ' ').trim(),
     });
+    selection.removeAllRanges();
+  };
 
-    let result = '';
-    for (let i = 0; i < lines.length; i++) {
-      const lineText = lines[i].text.join('');
-      result += lineText.trim();
-      const next = lines[i + 1];
-      if (!next) break;
-      const gap = Math.abs(lines[i].y - next.y);
-      if (gap > 12) {
-        result += '\n\n';
-      } else {
-        result += '\n';
-      }
+  const exportAnnotations = async () => {
+    try {
+      setIsExportingAnnotations(true);
+      const bytes = await exportAnnotatedPdf(file, annotations);
+      downloadBlob(new Blob([bytes], { type: 'application/pdf' }), `${file.name.replace('.pdf', '')}_annotated.pdf`);
+      toast({
+        title: "Download started",
+        description: `The PDF was saved with ${annotations.length} ${annotations.length === 1 ? 'annotation' : 'annotations'}`,
+      });
+    } catch (error) {
+      console.error('Error exporting annotations:', error);
+      toast({
+        title: "Export failed",
+        description: "Failed to add the annotations to the PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExportingAnnotations(false);
     }
+  };
+
+  const redactionsByPage = useMemo(() => {
+    const byPage = new Map<number, Redaction[]>();
+    redactions.forEach((redaction) => {
+      byPage.set(redaction.pageNumber, [...(byPage.get(redaction.pageNumber) ?? []), redaction]);
+    });
+    return byPage;
+  }, [redactions]);
 
-    // Basic text cleanup
-    result = result.replace(/-\n/g, '');
-    result = result.replace(/\n{3,}/g, '\n\n');
-    result = result.replace(/([.!?])\s+(?=[A-Z])/g, '$1\n\n');
-    
-    // Apply advanced text processing
-    result = cleanAndFormatText(result);
-    
-    return result.trim();
+  const addRedaction = (pageNumber: number, rect: BoundingBox) => {
+    const page = documentModel && getPage(documentModel, pageNumber);
+    onRedactionsAdd?.([{ id: crypto.randomUUID(), pageNumber, rect, text: textInRect(page, rect) }]);
   };
-  
-  // Advanced text processing to fix common PDF extraction issues
-  const cleanAndFormatText = (text: string): string => {
-    if (!text) return '';
-    
-    // Remove emojis
-    text = text.replace(/[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F700}-\u{1F77F}\u{1F780}-\u{1F7FF}\u{1F800}-\u{1F8FF}\u{1F900}-\u{1F9FF}\u{1FA00}-\u{1FA6F}\u{1FA70}-\u{1FAFF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu, '');
-    
-    // Remove page break markers
-    text = text.replace(/---\s*Page\s*Break\s*---/gi, '');
-    
-    // Replace bullet symbols with spaces but preserve the text content
-    text = text.replace(/([\u2022\u25cf\u25a0\u25c6\u25cb\u25e6-])\s*/g, ''); // Replace bullet symbols with nothing
-    text = text.replace(/\|/g, ''); // Remove vertical bars
-    
-    // Fix spaced out letters (e.g., "A d m i n" -> "Admin")
-    text = fixSpacedLetters(text);
-    
-    // Remove excessive whitespace
-    text = text.replace(/[ \t]+/g, ' '); // Replace multiple spaces/tabs with a single space
-    text = text.replace(/\n\s+/g, '\n'); // Remove spaces at the beginning of lines
-    text = text.replace(/\s+\n/g, '\n'); // Remove spaces at the end of lines
-    text = text.replace(/\n{3,}/g, '\n\n'); // Replace 3+ newlines with just 2
-    
-    // Fix common PDF extraction issues
-    text = text.replace(/([a-z])- ?\n([a-z])/gi, '$1$2'); // Fix hyphenated words across lines
-    text = text.replace(/([a-z])\n([a-z])/gi, '$1 $2'); // Join words broken across lines without hyphen
-    
-    // Improve section separation
-    // Add extra spacing for date ranges (like MM/YYYY - MM/YYYY or YYYY - Present)
-    text = text.replace(/(\d{1,2}\/\d{4}|\d{4})\s*[-–—]\s*(\d{1,2}\/\d{4}|\d{4}|Present)/gi, '\n\n$&\n');
-    
-    // Handle job titles and positions that follow date ranges
-    text = text.replace(/^(.{0,50})(Project Manager|Head Of|Director|Manager|Engineer|Developer|Designer|Consultant|Analyst|Specialist)/gim, '\n\n$1$2');
-    
-    // Add spacing after common section headers
-    const sectionHeaders = ['Experience', 'Education', 'Skills', 'Languages', 'Projects', 'Certifications', 'References', 'Responsibilities', 'Achievements'];
-    const sectionRegex = new RegExp(`(^|\n)\s*\b(${sectionHeaders.join('|')})\b[^\n]*`, 'gim');
-    text = text.replace(sectionRegex, '\n\n$&\n');
-    
-    // Improve paragraph structure
-    text = text.replace(/([.!?])\s+(?=[A-Z])/g, '$1\n\n'); // Add paragraph breaks after sentences
-    
-    // Final cleanup of excessive newlines
-    text = text.replace(/\n{3,}/g, '\n\n');
-    
-    return text.trim();
+
+  const exportRedacted = async () => {
+    try {
+      setIsExportingRedacted(true);
+      const bytes = await redactPdf(file, documentModel ?? { pages: [] }, redactions);
+      downloadBlob(new Blob([bytes], { type: 'application/pdf' }), `${file.name.replace('.pdf', '')}_redacted.pdf`);
+      toast({
+        title: "Download started",
+        description: "The marked areas were removed from the copy",
+      });
+    } catch (error) {
+      console.error('Error redacting PDF:', error);
+      toast({
+        title: "Redaction failed",
+        description: "Failed to create the redacted PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExportingRedacted(false);
+    }
   };
-  
-  // Function to fix spaced out letters (e.g., "A d m i n" -> "Admin")
-  const fixSpacedLetters = (text: string): string => {
-    // Pattern to detect single letters separated by spaces
-    const singleLetterPattern = /(?:\b([a-zA-Z]) )+([a-zA-Z])\b/g;
-    
-    // Find all instances of spaced out letters
-    const matches = Array.from(text.matchAll(singleLetterPattern));
-    
-    // If no matches, return the original text
-    if (matches.length === 0) return text;
-    
-    // Process each match
-    let result = text;
-    for (const match of matches) {
-      const fullMatch = match[0];
-      // Join the letters without spaces
-      const joined = fullMatch.replace(/ /g, '');
-      
-      // Only replace if the joined version is likely a real word (more than 2 letters)
-      if (joined.length > 2) {
-        result = result.replace(fullMatch, joined);
+
+  const getThumbnailHeight = (pageNumber: number, width: number) => {
+    const size = getPageSize(pageNumber);
+    return (size.height / size.width) * width;
+  };
+
+  // The current page is the first one whose bottom is below the top third of the window
+  useEffect(() => {
+    if (!numPages) return;
+    let frame = 0;
+    const updateCurrentPage = () => {
+      frame = 0;
+      const threshold = window.innerHeight / 3;
+      let low = 1;
+      let high = numPages;
+      while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        const bottom = pageRefs.current[middle]?.getBoundingClientRect().bottom ?? 0;
+        if (bottom < threshold) {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
       }
+      setCurrentPage(low);
+    };
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(updateCurrentPage);
+    };
+    updateCurrentPage();
+    document.addEventListener('scroll', onScroll, { capture: true, passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('scroll', onScroll, { capture: true });
+      window.removeEventListener('resize', onScroll);
+    };
+  }, [numPages]);
+
+  useEffect(() => {
+    setPageInput(String(currentPage));
+  }, [currentPage]);
+
+  const scrollToPage = useCallback((pageNumber: number) => {
+    pageRefs.current[pageNumber]?.scrollIntoView({ block: 'start' });
+  }, []);
+
+  useEffect(() => {
+    onCurrentPageChange?.(currentPage);
+  }, [currentPage, onCurrentPageChange]);
+
+  useEffect(() => {
+    if (pageRequest) scrollToPage(pageRequest.pageNumber);
+  }, [pageRequest, scrollToPage]);
+
+  const goToPageInput = () => {
+    const pageNumber = parseInt(pageInput, 10);
+    if (pageNumber >= 1 && pageNumber <= numPages) {
+      scrollToPage(pageNumber);
+    } else {
+      setPageInput(String(currentPage));
+    }
+  };
+
+  const { matches, searchError } = useMemo((): { matches: SearchMatch[]; searchError: string | null } => {
+    if (!isSearchOpen || !searchQuery || !documentModel) return { matches: [], searchError: null };
+    try {
+      return { matches: searchDocument(documentModel, searchQuery, searchOptions), searchError: null };
+    } catch (error) {
+      return { matches: [], searchError: error instanceof Error ? error.message : 'Invalid search' };
+    }
+  }, [documentModel, isSearchOpen, searchQuery, searchOptions]);
+
+  const activeMatch = matches[Math.min(activeMatchIndex, matches.length - 1)];
+
+  // Ranges to highlight, grouped by page and text layer item
+  const highlights = useMemo(() => {
+    const byPage = new Map<number, Map<number, { start: number; end: number; active: boolean }[]>>();
+    matches.forEach((match) => {
+      const items = byPage.get(match.pageNumber) ?? new Map();
+      byPage.set(match.pageNumber, items);
+      match.ranges.forEach(({ itemIndex, start, end }) => {
+        items.set(itemIndex, [...(items.get(itemIndex) ?? []), { start, end, active: match === activeMatch }]);
+      });
+    });
+    return byPage;
+  }, [matches, activeMatch]);
+
+  // Boxes of match parts outside the text layer (OCR text), grouped by page
+  const highlightBoxes = useMemo(() => {
+    const byPage = new Map<number, { box: BoundingBox; active: boolean }[]>();
+    matches.forEach((match) => {
+      match.ranges.forEach(({ itemIndex }, index) => {
+        if (itemIndex >= 0) return;
+        byPage.set(match.pageNumber, [...(byPage.get(match.pageNumber) ?? []), { box: match.boxes[index], active: match === activeMatch }]);
+      });
+    });
+    return byPage;
+  }, [matches, activeMatch]);
+
+  const customTextRenderer = useCallback<NonNullable<PageProps['customTextRenderer']>>(({ pageNumber, itemIndex, str }) =>
+    highlightItem(str, highlights.get(pageNumber)?.get(itemIndex) ?? []), [highlights]);
+
+  useEffect(() => {
+    setActiveMatchIndex(0);
+  }, [searchQuery, searchOptions]);
+
+  // Bring the active match into view: first its page, then the highlight once the text layer has it
+  const pendingHighlightPageRef = useRef<number | null>(null);
+  const scrollToActiveHighlight = useCallback((pageNumber: number) => {
+    if (pendingHighlightPageRef.current !== pageNumber) return;
+    const highlight = pageRefs.current[pageNumber]?.querySelector('.search-highlight-active');
+    if (highlight) {
+      highlight.scrollIntoView({ block: 'center' });
+      pendingHighlightPageRef.current = null;
     }
-    
-    return result;
+  }, []);
+
+  useEffect(() => {
+    if (!activeMatch) return;
+    pendingHighlightPageRef.current = activeMatch.pageNumber;
+    pageRefs.current[activeMatch.pageNumber]?.scrollIntoView({ block: 'start' });
+    const frame = requestAnimationFrame(() => scrollToActiveHighlight(activeMatch.pageNumber));
+    return () => cancelAnimationFrame(frame);
+  }, [activeMatch, scrollToActiveHighlight]);
+
+  const openSearch = useCallback(() => {
+    setIsSearchOpen(true);
+    requestAnimationFrame(() => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    });
+  }, []);
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setSearchQuery('');
+  };
+
+  const goToMatch = (offset: number) => {
+    if (!matches.length) return;
+    setActiveMatchIndex((Math.min(activeMatchIndex, matches.length - 1) + offset + matches.length) % matches.length);
+  };
+
+  // Ctrl+F / Cmd+F opens the document search instead of the browser's
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+        event.preventDefault();
+        openSearch();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [openSearch]);
+
+  const zoomIn = () => {
+    setScale(Math.min(3, scale + 0.2));
+  };
+
+  const zoomOut = () => {
+    setScale(Math.max(0.5, scale - 0.2));
+  };
+
+  const rotate = () => {
+    setRotation((rotation + 90) % 360);
   };
 
   return (
@@ -240,45 +597,282 @@ export const PDFViewer = ({ file, onTextExtracted }: PDFViewerProps) => {
             </Button>
           </div>
           
-          <Button variant="outline" size="sm" onClick={rotate}>
+          <Button variant="outline" size="sm" onClick={rotate} title="Rotate the view">
             <RotateCw className="h-4 w-4" />
           </Button>
+
+          {onOrganizePages && (
+            <Button variant="outline" size="sm" onClick={onOrganizePages} title="Reorder, rotate, merge and split pages">
+              <LayoutGrid className="h-4 w-4" />
+            </Button>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsNavigationOpen(!isNavigationOpen)}
+            title={isNavigationOpen ? 'Hide pages and outline' : 'Show pages and outline'}
+          >
+            {isNavigationOpen ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeftOpen className="h-4 w-4" />}
+          </Button>
+
+          {onRedactionsAdd && (
+            <Toggle
+              variant="outline"
+              size="sm"
+              pressed={isRedacting}
+              onPressedChange={setIsRedacting}
+              title="Mark areas to remove from the document"
+              aria-label="Redaction mode"
+            >
+              <EyeOff className="h-4 w-4" />
+            </Toggle>
+          )}
+
+          {onColumnLayoutChange && (
+            <Toggle
+              variant="outline"
+              size="sm"
+              pressed={columnLayout}
+              onPressedChange={onColumnLayoutChange}
+              title="Read multi-column pages column by column"
+              aria-label="Column reading order"
+            >
+              <Columns2 className="h-4 w-4" />
+            </Toggle>
+          )}
+
+          <div className="flex items-center gap-1 text-xs">
+            <Input
+              value={pageInput}
+              onChange={(e) => setPageInput(e.target.value.replace(/\D/g, ''))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') goToPageInput();
+              }}
+              onBlur={() => setPageInput(String(currentPage))}
+              inputMode="numeric"
+              aria-label="Go to page"
+              className="h-8 w-12 px-1 text-center text-xs"
+              disabled={!numPages}
+            />
+            <span className="text-muted-foreground whitespace-nowrap">of {numPages}</span>
+          </div>
+
+          {!isSearchOpen && (
+            <Button variant="outline" size="sm" onClick={openSearch} title="Search (Ctrl+F)">
+              <Search className="h-4 w-4" />
+            </Button>
+          )}
         </div>
+
+        {isRedacting && (
+          <RedactionBar
+            redactionCount={redactions.length}
+            matchCount={matches.length}
+            onRedactMatches={() => onRedactionsAdd?.(redactionsFromMatches(matches))}
+            onClear={() => onRedactionsClear?.()}
+            onExport={exportRedacted}
+            isExporting={isExportingRedacted}
+            onClose={() => setIsRedacting(false)}
+          />
+        )}
+
+        {onAnnotationAdd && !isRedacting && (
+          <div className="flex items-center gap-2 flex-wrap">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={annotationTool}
+              onValueChange={(value) => value && setAnnotationTool(value as AnnotationTool)}
+              aria-label="Annotation tool"
+            >
+              <ToggleGroupItem value="select" title="Select text" aria-label="Select text">
+                <MousePointer2 className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="highlight" title="Highlight selected text" aria-label="Highlight">
+                <Highlighter className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="note" title="Click on a page to add a note" aria-label="Note">
+                <StickyNote className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="ink" title="Draw on the page" aria-label="Draw">
+                <PenLine className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+
+            <div className="flex items-center gap-1" role="radiogroup" aria-label="Annotation color">
+              {annotationColors.map((color) => (
+                <button
+                  key={color.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={annotationColor === color.id}
+                  aria-label={color.label}
+                  title={color.label}
+                  className={`h-5 w-5 rounded-full border ${annotationColor === color.id ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+                  style={{ backgroundColor: color.hex }}
+                  onClick={() => setAnnotationColor(color.id)}
+                />
+              ))}
+            </div>
+
+            <Toggle
+              variant="outline"
+              size="sm"
+              pressed={isAnnotationsOpen}
+              onPressedChange={setIsAnnotationsOpen}
+              title={isAnnotationsOpen ? 'Hide annotations' : 'Show annotations'}
+              aria-label="Annotations panel"
+              className="gap-1"
+            >
+              <MessageSquare className="h-4 w-4" />
+              {annotations.length > 0 && <span className="text-xs">{annotations.length}</span>}
+            </Toggle>
+          </div>
+        )}
+
+        {extractionProgress && extractionProgress.total > 0 && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Extracting text</span>
+              <span>{extractionProgress.completed} of {extractionProgress.total} pages</span>
+            </div>
+            <Progress value={(extractionProgress.completed / extractionProgress.total) * 100} className="h-1.5" />
+          </div>
+        )}
+
+        {isSearchOpen && (
+          <SearchBar
+            ref={searchInputRef}
+            query={searchQuery}
+            onQueryChange={setSearchQuery}
+            options={searchOptions}
+            onOptionsChange={setSearchOptions}
+            matchCount={matches.length}
+            activeIndex={Math.min(activeMatchIndex, matches.length - 1)}
+            error={searchError}
+            onNext={() => goToMatch(1)}
+            onPrevious={() => goToMatch(-1)}
+            onClose={closeSearch}
+          />
+        )}
       </CardHeader>
       
       <CardContent className="p-4 bg-viewer-bg overflow-auto">
-        <div className="flex flex-col items-center gap-8">
-          <Document
-            file={file}
-            onLoadSuccess={onDocumentLoadSuccess}
-            onLoadError={onDocumentLoadError}
-            loading={
-              <div className="flex items-center justify-center p-8">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-              </div>
-            }
-          >
+        <Document
+          file={file}
+          onLoadSuccess={onDocumentLoadSuccess}
+          onLoadError={onDocumentLoadError}
+          onItemClick={({ pageNumber }) => scrollToPage(pageNumber)}
+          className="flex gap-4"
+          loading={
+            <div className="flex flex-1 items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          }
+        >
+          {isNavigationOpen && numPages > 0 && (
+            <PageNavigationPanel
+              numPages={numPages}
+              currentPage={currentPage}
+              rotation={rotation}
+              getThumbnailHeight={getThumbnailHeight}
+            />
+          )}
+          <div className="flex flex-1 min-w-0 flex-col items-center">
             {Array.from(new Array(numPages), (_, index) => (
-              <div key={`page_${index + 1}`} className="mb-8 shadow-lg shadow-[var(--viewer-shadow)] rounded-lg overflow-hidden bg-white">
-                <Page
-                  key={`page_${index + 1}`}
-                  pageNumber={index + 1}
-                  scale={scale}
-                  rotate={rotation}
-                  onLoadSuccess={(page) => onPageLoadSuccess(page, index)}
-                  loading={
-                    <div className="flex items-center justify-center p-8">
-                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
-                    </div>
-                  }
-                />
-                <div className="bg-gray-100 py-1 px-3 text-xs text-center border-t">
+              <div
+                key={`page_${index + 1}`}
+                ref={getPageRef(index + 1)}
+                data-page-number={index + 1}
+                className="mb-8 shadow-lg shadow-[var(--viewer-shadow)] rounded-lg overflow-hidden bg-white"
+              >
+                <div
+                  className="relative"
+                  onMouseUp={annotationTool === 'highlight' && !isRedacting ? (event) => highlightSelection(index + 1, event.currentTarget) : undefined}
+                >
+                  {visiblePages.has(index + 1) ? (
+                    <Page
+                      key={`page_${index + 1}`}
+                      pageNumber={index + 1}
+                      scale={scale}
+                      rotate={rotation}
+                      customTextRenderer={matches.length ? customTextRenderer : undefined}
+                      onRenderTextLayerSuccess={() => scrollToActiveHighlight(index + 1)}
+                      loading={
+                        <div className="flex items-center justify-center" style={getSlotSize(index + 1)}>
+                          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                        </div>
+                      }
+                    />
+                  ) : (
+                    <div style={getSlotSize(index + 1)} aria-hidden="true" />
+                  )}
+                  {visiblePages.has(index + 1) && columnRegions.has(index + 1) && (
+                    <ColumnOverlay
+                      regions={columnRegions.get(index + 1)}
+                      pageSize={getPage(documentModel, index + 1)}
+                      scale={scale}
+                      rotation={rotation}
+                    />
+                  )}
+                  {visiblePages.has(index + 1) && highlightBoxes.has(index + 1) && (
+                    <SearchBoxOverlay
+                      boxes={highlightBoxes.get(index + 1)}
+                      pageSize={getUnrotatedPageSize(index + 1)}
+                      scale={scale}
+                      rotation={rotation}
+                    />
+                  )}
+                  {visiblePages.has(index + 1) && onAnnotationAdd && (
+                    <AnnotationOverlay
+                      pageNumber={index + 1}
+                      annotations={annotationsByPage.get(index + 1) ?? []}
+                      pageSize={getUnrotatedPageSize(index + 1)}
+                      scale={scale}
+                      rotation={rotation}
+                      tool={isRedacting ? 'select' : annotationTool}
+                      color={annotationColor}
+                      selectedId={selectedAnnotationId}
+                      onSelect={selectAnnotation}
+                      onAdd={onAnnotationAdd}
+                    />
+                  )}
+                  {visiblePages.has(index + 1) && (isRedacting || redactionsByPage.has(index + 1)) && (
+                    <RedactionOverlay
+                      redactions={redactionsByPage.get(index + 1) ?? []}
+                      pageSize={getUnrotatedPageSize(index + 1)}
+                      scale={scale}
+                      rotation={rotation}
+                      isEditing={isRedacting}
+                      onAdd={(rect) => addRedaction(index + 1, rect)}
+                      onRemove={(id) => onRedactionRemove?.(id)}
+                    />
+                  )}
+                </div>
+                <div className="bg-gray-100 py-1 px-3 text-xs text-center border-t flex items-center justify-center gap-2">
                   Page {index + 1} of {numPages}
+                  {ocrPages[index + 1] && <OcrBadge state={ocrPages[index + 1]} />}
                 </div>
               </div>
             ))}
-          </Document>
-        </div>
+          </div>
+          {isAnnotationsOpen && onAnnotationUpdate && onAnnotationRemove && (
+            <AnnotationsPanel
+              annotations={annotations}
+              selectedId={selectedAnnotationId}
+              onSelect={(annotation) => {
+                setSelectedAnnotationId(annotation.id);
+                scrollToPage(annotation.pageNumber);
+              }}
+              onUpdate={onAnnotationUpdate}
+              onRemove={onAnnotationRemove}
+              onExport={exportAnnotations}
+              isExporting={isExportingAnnotations}
+            />
+          )}
+        </Document>
       </CardContent>
     </Card>
   );
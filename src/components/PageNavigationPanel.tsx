@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { Outline, Thumbnail } from 'react-pdf';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+// Thumbnails closer than this to the visible part of the strip are rendered
+const THUMBNAIL_MARGIN = '400px 0px';
+const THUMBNAIL_WIDTH = 96;
+
+interface PageNavigationPanelProps {
+  numPages: number;
+  currentPage: number;
+  rotation: number;
+  /** Height of an unrendered thumbnail for the given page */
+  getThumbnailHeight: (pageNumber: number, width: number) => number;
+}
+
+/**
+ * Thumbnails and outline of the document. Must be rendered inside <Document>;
+ * clicks go through the Document's onItemClick.
+ */
+export const PageNavigationPanel = ({ numPages, currentPage, rotation, getThumbnailHeight }: PageNavigationPanelProps) => {
+  const [hasOutline, setHasOutline] = useState<boolean | null>(null);
+  const [visibleThumbnails, setVisibleThumbnails] = useState<Set<number>>(() => new Set());
+  const [listElement, setListElement] = useState<HTMLDivElement | null>(null);
+  const thumbnailRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  // Mount thumbnails lazily, like the pages in the viewer
+  useEffect(() => {
+    if (!listElement) return;
+    const observer = new IntersectionObserver((entries) => {
+      setVisibleThumbnails(prev => {
+        const next = new Set(prev);
+        entries.forEach((entry) => {
+          const pageNumber = Number((entry.target as HTMLElement).dataset.pageNumber);
+          if (entry.isIntersecting) {
+            next.add(pageNumber);
+          } else {
+            next.delete(pageNumber);
+          }
+        });
+        return next;
+      });
+    }, { root: listElement, rootMargin: THUMBNAIL_MARGIN });
+    listElement.querySelectorAll('[data-page-number]').forEach((element) => observer.observe(element));
+    return () => observer.disconnect();
+  }, [listElement, numPages]);
+
+  // Keep the current page's thumbnail in view without scrolling the window
+  useEffect(() => {
+    const item = thumbnailRefs.current[currentPage];
+    if (!listElement || !item) return;
+    const top = item.offsetTop;
+    const bottom = top + item.offsetHeight;
+    if (top < listElement.scrollTop || bottom > listElement.scrollTop + listElement.clientHeight) {
+      listElement.scrollTop = top - (listElement.clientHeight - item.offsetHeight) / 2;
+    }
+  }, [currentPage, listElement]);
+
+  return (
+    <Tabs defaultValue="thumbnails" className="w-36 shrink-0 sticky top-4 self-start flex flex-col max-h-[calc(100vh-2rem)]">
+      <TabsList className="grid grid-cols-2 h-8">
+        <TabsTrigger value="thumbnails" className="text-xs py-1 px-1">Pages</TabsTrigger>
+        <TabsTrigger value="outline" className="text-xs py-1 px-1">Outline</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="thumbnails" className="mt-2 min-h-0 flex-1">
+        <div ref={setListElement} className="relative h-full max-h-[calc(100vh-5rem)] overflow-y-auto space-y-3 px-1 py-1">
+          {Array.from(new Array(numPages), (_, index) => {
+            const pageNumber = index + 1;
+            return (
+              <div
+                key={`thumbnail_${pageNumber}`}
+                ref={(element) => { thumbnailRefs.current[pageNumber] = element; }}
+                data-page-number={pageNumber}
+                className="flex flex-col items-center gap-1"
+              >
+                <div
+                  className={`rounded overflow-hidden bg-white border-2 ${pageNumber === currentPage ? 'border-primary' : 'border-transparent hover:border-muted-foreground/40'}`}
+                  aria-current={pageNumber === currentPage ? 'page' : undefined}
+                >
+                  {visibleThumbnails.has(pageNumber) ? (
+                    <Thumbnail
+                      pageNumber={pageNumber}
+                      width={THUMBNAIL_WIDTH}
+                      rotate={rotation}
+                      loading={<div style={{ width: THUMBNAIL_WIDTH, height: getThumbnailHeight(pageNumber, THUMBNAIL_WIDTH) }} />}
+                    />
+                  ) : (
+                    <div style={{ width: THUMBNAIL_WIDTH, height: getThumbnailHeight(pageNumber, THUMBNAIL_WIDTH) }} />
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">{pageNumber}</span>
+              </div>
+            );
+          })}
+        </div>
+      </TabsContent>
+
+      <TabsContent value="outline" className="mt-2 min-h-0 flex-1 overflow-y-auto max-h-[calc(100vh-5rem)]">
+        <Outline
+          className="document-outline text-xs"
+          onLoadSuccess={(outline) => setHasOutline(!!outline?.length)}
+          onLoadError={() => setHasOutline(false)}
+        />
+        {hasOutline === false && (
+          <p className="text-xs text-muted-foreground px-1">This document has no outline.</p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+};
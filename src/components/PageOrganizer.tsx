@@ -0,0 +1,345 @@
+import { useEffect, useRef, useState } from 'react';
+import { Page, pdfjs } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { zipSync } from 'fflate';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Download, ExternalLink, Loader2, RotateCcw, RotateCw, Scissors, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/utils';
+import type { WorkspaceDocument } from '@/hooks/use-workspace';
+import {
+  buildPdf,
+  createOrganizerPages,
+  parsePageRanges,
+  splitPdf,
+  type OrganizerPage,
+} from '@/services/pageOrganizer';
+
+const THUMBNAIL_HEIGHT = 150;
+
+interface PageOrganizerProps {
+  document: WorkspaceDocument;
+  /** Documents in the workspace whose pages can be merged in */
+  documents: WorkspaceDocument[];
+  /** Open generated files as new documents in the viewer */
+  onOpenFiles: (files: File[]) => void;
+  onClose: () => void;
+}
+
+interface OrganizerThumbnailProps {
+  pdf: PDFDocumentProxy;
+  page: OrganizerPage;
+}
+
+const OrganizerThumbnail = ({ pdf, page }: OrganizerThumbnailProps) => {
+  // The rotate prop replaces the page's own rotation, so add to it once it is known
+  const [baseRotation, setBaseRotation] = useState<number | null>(null);
+  return (
+    <Page
+      pdf={pdf}
+      pageNumber={page.pageNumber}
+      height={THUMBNAIL_HEIGHT}
+      rotate={baseRotation === null ? undefined : (baseRotation + page.rotation) % 360}
+      onLoadSuccess={(loaded) => setBaseRotation(loaded.rotate)}
+      renderTextLayer={false}
+      renderAnnotationLayer={false}
+      loading={<div style={{ width: THUMBNAIL_HEIGHT * 0.75, height: THUMBNAIL_HEIGHT }} />}
+    />
+  );
+};
+
+/** Source PDFs opened while one document is organized; ends when another file takes its place */
+interface PdfSession {
+  cancelled: boolean;
+  pdfs: Record<string, PDFDocumentProxy>;
+  /** Loads by source ID, so sources requested again while loading are opened once */
+  loads: Record<string, Promise<PDFDocumentProxy | null>>;
+}
+
+const createSession = (): PdfSession => ({ cancelled: false, pdfs: {}, loads: {} });
+
+const loadPdf = async (session: PdfSession, id: string, file: File): Promise<PDFDocumentProxy | null> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  if (session.cancelled) return null;
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  if (session.cancelled) {
+    pdf.destroy();
+    return null;
+  }
+  session.pdfs[id] = pdf;
+  return pdf;
+};
+
+/**
+ * Open a source PDF once per session. A PDF that finishes loading after the
+ * session ended is destroyed right away, and null is returned.
+ */
+const openSourcePdf = (session: PdfSession, id: string, file: File): Promise<PDFDocumentProxy | null> => {
+  session.loads[id] ??= loadPdf(session, id, file).catch((error) => {
+    // A failed load can be tried again
+    delete session.loads[id];
+    throw error;
+  });
+  return session.loads[id];
+};
+
+const pdfFile = (bytes: Uint8Array, name: string) => new File([bytes], name, { type: 'application/pdf' });
+
+/**
+ * Reorder, rotate, duplicate and delete pages, merge in other documents and
+ * split into ranges. Nothing changes in the original file; the result is a new PDF.
+ */
+export const PageOrganizer = ({ document, documents, onOpenFiles, onClose }: PageOrganizerProps) => {
+  const { toast } = useToast();
+  const [pdfs, setPdfs] = useState<Record<string, PDFDocumentProxy>>({});
+  const [pages, setPages] = useState<OrganizerPage[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [ranges, setRanges] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const sessionRef = useRef<PdfSession>(createSession());
+  const { id: documentId, file: documentFile } = document;
+  const baseName = documentFile.name.replace(/\.pdf$/i, '');
+
+  const loadSource = async (source: WorkspaceDocument) => {
+    const session = sessionRef.current;
+    const pdf = await openSourcePdf(session, source.id, source.file);
+    if (pdf) setPdfs({ ...session.pdfs });
+    return pdf;
+  };
+
+  // A different file starts a new session; other updates to the document (extraction) do not
+  useEffect(() => {
+    const session = createSession();
+    sessionRef.current = session;
+    openSourcePdf(session, documentId, documentFile)
+      .then((pdf) => {
+        if (!pdf) return;
+        setPdfs({ ...session.pdfs });
+        setPages(createOrganizerPages(documentId, pdf.numPages));
+      })
+      .catch((error) => {
+        if (session.cancelled) return;
+        console.error('Failed to open document for organizing:', error);
+        toast({ title: 'Could not open document', description: 'The PDF could not be read', variant: 'destructive' });
+      });
+    return () => {
+      session.cancelled = true;
+      Object.values(session.pdfs).forEach((pdf) => pdf.destroy());
+    };
+  }, [documentId, documentFile, toast]);
+
+  const sources = Object.fromEntries(documents.map((item) => [item.id, item.file]));
+  const sourceNames = Object.fromEntries(documents.map((item) => [item.id, item.file.name]));
+  const mergeCandidates = documents.filter((item) => item.id !== document.id);
+
+  const updatePage = (id: string, update: (page: OrganizerPage) => OrganizerPage) =>
+    setPages((current) => current.map((page) => (page.id === id ? update(page) : page)));
+
+  const rotatePage = (id: string, delta: number) =>
+    updatePage(id, (page) => ({ ...page, rotation: (page.rotation + delta + 360) % 360 }));
+
+  const duplicatePage = (id: string) =>
+    setPages((current) => current.flatMap((page) => (page.id === id ? [page, { ...page, id: crypto.randomUUID() }] : [page])));
+
+  const deletePage = (id: string) => setPages((current) => current.filter((page) => page.id !== id));
+
+  const movePage = (id: string, targetIndex: number) =>
+    setPages((current) => {
+      const index = current.findIndex((page) => page.id === id);
+      if (index < 0) return current;
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      // Removing the page shifts later positions down by one
+      next.splice(targetIndex > index ? targetIndex - 1 : targetIndex, 0, moved);
+      return next;
+    });
+
+  const mergeDocument = async (id: string) => {
+    const source = documents.find((item) => item.id === id);
+    if (!source) return;
+    try {
+      const pdf = await loadSource(source);
+      if (!pdf) return;
+      setPages((current) => [...current, ...createOrganizerPages(source.id, pdf.numPages)]);
+      toast({ title: 'Pages added', description: `${pdf.numPages} pages from ${source.file.name}` });
+    } catch (error) {
+      console.error('Failed to merge document:', error);
+      toast({ title: 'Merge failed', description: `${source.file.name} could not be read`, variant: 'destructive' });
+    }
+  };
+
+  const run = async (task: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await task();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : 'The PDF could not be written',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const saveDocument = (open: boolean) => run(async () => {
+    const file = pdfFile(await buildPdf(pages, sources), `${baseName}_organized.pdf`);
+    if (open) {
+      onOpenFiles([file]);
+      onClose();
+    } else {
+      downloadBlob(file, file.name);
+      toast({ title: 'Download started', description: `Saved as ${file.name}` });
+    }
+  }, 'Saving the PDF failed');
+
+  const splitDocument = (open: boolean) => run(async () => {
+    const parsed = parsePageRanges(ranges, pages.length);
+    const parts = await splitPdf(pages, sources, parsed);
+    const files = parts.map((bytes, index) => {
+      const [first, last] = parsed[index];
+      return pdfFile(bytes, `${baseName}_pages_${first === last ? first : `${first}-${last}`}.pdf`);
+    });
+    if (open) {
+      onOpenFiles(files);
+      onClose();
+      return;
+    }
+    if (files.length === 1) {
+      downloadBlob(files[0], files[0].name);
+    } else {
+      const entries = Object.fromEntries(files.map((file, index) => [file.name, parts[index]]));
+      downloadBlob(new Blob([zipSync(entries)], { type: 'application/zip' }), `${baseName}_split.zip`);
+    }
+    toast({ title: 'Download started', description: `Split into ${files.length} ${files.length === 1 ? 'file' : 'files'}` });
+  }, 'Splitting the PDF failed');
+
+  return (
+    <Card className="h-full bg-viewer-panel">
+      <CardHeader className="pb-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Organize Pages</CardTitle>
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">
+              {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={onClose} title="Back to the viewer">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button size="sm" onClick={() => saveDocument(true)} disabled={!pages.length || isWorking}>
+            {isWorking ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ExternalLink className="h-4 w-4 mr-1" />}
+            Open in viewer
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => saveDocument(false)} disabled={!pages.length || isWorking}>
+            <Download className="h-4 w-4 mr-1" />
+            Download
+          </Button>
+          {mergeCandidates.length > 0 && (
+            <Select value="" onValueChange={mergeDocument}>
+              <SelectTrigger className="h-9 w-auto text-sm" aria-label="Merge pages from another document">
+                <SelectValue placeholder="Merge document…" />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeCandidates.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>{item.file.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <Input
+            value={ranges}
+            onChange={(e) => setRanges(e.target.value)}
+            placeholder="Split ranges, e.g. 1-3, 4-6, 7-"
+            aria-label="Split ranges"
+            className="h-9 w-56"
+          />
+          <Button variant="outline" size="sm" onClick={() => splitDocument(false)} disabled={!ranges.trim() || isWorking}>
+            <Scissors className="h-4 w-4 mr-1" />
+            Split & download
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => splitDocument(true)} disabled={!ranges.trim() || isWorking}>
+            Split & open
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-4">
+        <div
+          className="grid grid-cols-[repeat(auto-fill,minmax(140px,1fr))] gap-4 max-h-[70vh] overflow-auto"
+          onDragEnd={() => {
+            setDraggedId(null);
+            setDropIndex(null);
+          }}
+        >
+          {pages.map((page, index) => {
+            const pdf = pdfs[page.sourceId];
+            return (
+              <div
+                key={page.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedId(page.id);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  const { left, width } = e.currentTarget.getBoundingClientRect();
+                  // Drop before or after this page depending on which half the pointer is over
+                  setDropIndex(e.clientX < left + width / 2 ? index : index + 1);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (draggedId && dropIndex !== null) movePage(draggedId, dropIndex);
+                  setDraggedId(null);
+                  setDropIndex(null);
+                }}
+                className={`group relative flex flex-col items-center gap-1 rounded-lg border-2 border-transparent p-2 bg-white dark:bg-gray-900 cursor-grab ${
+                  draggedId === page.id ? 'opacity-40' : ''
+                } ${
+                  dropIndex === index ? 'border-l-primary' : dropIndex === index + 1 ? 'border-r-primary' : ''
+                }`}
+              >
+                <div className="flex items-center justify-center" style={{ height: THUMBNAIL_HEIGHT }}>
+                  {pdf && <OrganizerThumbnail pdf={pdf} page={page} />}
+                </div>
+                <span className="text-xs text-muted-foreground text-center truncate max-w-full" title={sourceNames[page.sourceId]}>
+                  {index + 1}
+                  {page.sourceId !== document.id || page.pageNumber !== index + 1 ? ` · p. ${page.pageNumber}` : ''}
+                  {page.sourceId !== document.id ? ` · ${sourceNames[page.sourceId]}` : ''}
+                </span>
+                <div className="flex gap-0.5 opacity-70 group-hover:opacity-100">
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => rotatePage(page.id, -90)} title="Rotate left">
+                    <RotateCcw className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => rotatePage(page.id, 90)} title="Rotate right">
+                    <RotateCw className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => duplicatePage(page.id)} title="Duplicate">
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deletePage(page.id)} title="Delete">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
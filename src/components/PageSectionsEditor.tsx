@@ -0,0 +1,393 @@
+import { useEffect, useRef, useState, type KeyboardEvent, type MouseEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Bold,
+  ChevronRight,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  Hash,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  LocateFixed,
+  Pilcrow,
+  WrapText,
+} from 'lucide-react';
+import { HighlightedTextarea, type TextHighlight } from '@/components/HighlightedTextarea';
+import { useEditorSettings } from '@/hooks/use-editor-settings';
+import { cn } from '@/lib/utils';
+import { markupRanges, toggleBold, toggleHeading, toggleList, type MarkupEdit, type MarkupRange } from '@/services/textMarkup';
+import type { TextEditKind } from '@/services/textHistory';
+
+interface PageSectionsEditorProps {
+  /** Text of each page as shown, keyed by page number */
+  pages: Record<number, string>;
+  /** Pages whose text differs from their extraction */
+  editedPages?: Record<number, string>;
+  onChangePage: (pageNumber: number, text: string, kind: TextEditKind) => void;
+  /** Further marks per page, such as personal data findings */
+  pageHighlights?: Record<number, TextHighlight[]>;
+  readOnly?: boolean;
+  /** Page in view in the PDF viewer */
+  currentPage?: number;
+  /** Bring a page into view in the PDF viewer */
+  onPageSelect?: (pageNumber: number) => void;
+  /** Keys the editor leaves alone, such as undo and redo */
+  onKeyDown?: (event: KeyboardEvent<HTMLTextAreaElement>) => void;
+}
+
+// Classes of the markup styles; they must not change the width of the text
+const markupClasses: Record<MarkupRange['style'], string> = {
+  heading: 'font-bold text-primary',
+  bold: 'font-bold',
+  listMarker: 'font-bold text-primary',
+  syntax: 'text-muted-foreground',
+};
+
+// Sections this far above or below the visible part of the editor are rendered in full
+const RENDER_MARGIN = 800;
+// Size of a line of text-sm with leading-relaxed, the padding around the text
+// and the characters a wrapped line holds, to size pages not rendered yet
+const LINE_HEIGHT = 23;
+const TEXT_PADDING = 16;
+const WRAP_LENGTH = 80;
+
+const estimateHeight = (text: string, wrap: boolean) =>
+  text
+    .split('\n')
+    .reduce((lines, line) => lines + (wrap ? Math.max(1, Math.ceil(line.length / WRAP_LENGTH)) : 1), 0) * LINE_HEIGHT
+  + TEXT_PADDING;
+
+const headingLevels = [
+  { level: 1, icon: Heading1 },
+  { level: 2, icon: Heading2 },
+  { level: 3, icon: Heading3 },
+];
+
+/**
+ * The document text as one collapsible section per page, with Markdown-style
+ * headings, lists and bold text. Alt+Up and Alt+Down move between pages.
+ * Only pages near the visible part get an editor; the others keep their
+ * place with an empty box of their last known height.
+ */
+export const PageSectionsEditor = ({
+  pages,
+  editedPages = {},
+  onChangePage,
+  pageHighlights = {},
+  readOnly,
+  currentPage,
+  onPageSelect,
+  onKeyDown,
+}: PageSectionsEditorProps) => {
+  const { lineNumbers, softWrap, setLineNumbers, setSoftWrap } = useEditorSettings();
+  const [collapsedPages, setCollapsedPages] = useState<Set<number>>(() => new Set());
+  const [activePage, setActivePage] = useState<number | null>(null);
+  const [nearPages, setNearPages] = useState<Set<number>>(() => new Set());
+  const contentHeights = useRef<Record<number, number>>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sectionRefs = useRef<Record<number, HTMLDivElement | null>>({});
+  const textareaRefs = useRef<Record<number, HTMLTextAreaElement | null>>({});
+  const pageNumbers = Object.keys(pages).map(Number).sort((a, b) => a - b);
+  const targetPage = activePage !== null && activePage in pages ? activePage : pageNumbers[0];
+  const pageList = pageNumbers.join(',');
+
+  // Heights measured with other line settings no longer fit
+  useEffect(() => {
+    contentHeights.current = {};
+  }, [lineNumbers, softWrap]);
+
+  // Track which sections are near the visible part; a section that moves away
+  // leaves its measured height behind for the box that replaces its editor
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new IntersectionObserver((entries) => {
+      setNearPages((current) => {
+        const next = new Set(current);
+        entries.forEach((entry) => {
+          const section = entry.target as HTMLElement;
+          const pageNumber = Number(section.dataset.page);
+          if (entry.isIntersecting) {
+            next.add(pageNumber);
+          } else {
+            const content = section.querySelector<HTMLElement>('[data-page-content]');
+            if (content) contentHeights.current[pageNumber] = content.offsetHeight;
+            next.delete(pageNumber);
+          }
+        });
+        return next;
+      });
+    }, { root: container, rootMargin: `${RENDER_MARGIN}px 0px` });
+    container.querySelectorAll('[data-page]').forEach((section) => observer.observe(section));
+    return () => observer.disconnect();
+  }, [pageList]);
+
+  // Scroll within the editor only, so the page around it stays where it is
+  const scrollToSection = (pageNumber: number) => {
+    const container = containerRef.current;
+    const section = sectionRefs.current[pageNumber];
+    if (container && section) container.scrollTop = section.offsetTop;
+  };
+
+  // Follow the viewer to the page it shows, unless a page is being edited
+  useEffect(() => {
+    const container = containerRef.current;
+    const section = sectionRefs.current[currentPage];
+    if (!container || !section || container.contains(document.activeElement)) return;
+    container.scrollTop = section.offsetTop;
+  }, [currentPage]);
+
+  const setCollapsed = (pageNumber: number, collapsed: boolean) => {
+    setCollapsedPages((current) => {
+      const next = new Set(current);
+      if (collapsed) next.add(pageNumber);
+      else next.delete(pageNumber);
+      return next;
+    });
+  };
+
+  const focusPage = (pageNumber: number) => {
+    setCollapsed(pageNumber, false);
+    setActivePage(pageNumber);
+    onPageSelect?.(pageNumber);
+    // The section's content mounts once it is expanded
+    requestAnimationFrame(() => {
+      const textarea = textareaRefs.current[pageNumber];
+      if (!textarea) return;
+      textarea.focus({ preventScroll: true });
+      textarea.setSelectionRange(0, 0);
+      scrollToSection(pageNumber);
+    });
+  };
+
+  // Apply a formatting command to the selection in the page last edited
+  const applyMarkup = (command: (text: string, selectionStart: number, selectionEnd: number) => MarkupEdit, pageNumber = targetPage) => {
+    const textarea = textareaRefs.current[pageNumber];
+    if (readOnly || pageNumber === undefined) return;
+    const text = pages[pageNumber];
+    const edit = command(text, textarea?.selectionStart ?? 0, textarea?.selectionEnd ?? 0);
+    if (edit.text !== text) onChangePage(pageNumber, edit.text, 'replace');
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const handleKeyDown = (pageNumber: number, e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const index = pageNumbers.indexOf(pageNumber);
+    const isModified = e.ctrlKey || e.metaKey;
+    if (e.altKey && !isModified && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      const target = pageNumbers[index + (e.key === 'ArrowDown' ? 1 : -1)];
+      e.preventDefault();
+      if (target !== undefined) focusPage(target);
+    } else if (isModified && !e.altKey && e.key.toLowerCase() === 'b') {
+      e.preventDefault();
+      applyMarkup(toggleBold, pageNumber);
+    } else if (isModified && e.altKey && /^Digit[0-3]$/.test(e.code)) {
+      e.preventDefault();
+      const level = Number(e.code.slice(-1));
+      applyMarkup((text, start, end) => toggleHeading(text, start, end, level), pageNumber);
+    } else {
+      onKeyDown?.(e);
+    }
+  };
+
+  const toolbarButton = 'h-7 w-7 p-0';
+  // Keep the focus, and with it the selection, in the text
+  const keepFocus = (e: MouseEvent) => e.preventDefault();
+
+  return (
+    <div className="border rounded-lg bg-white dark:bg-gray-900">
+      <div className="flex items-center gap-1 p-1 border-b flex-wrap">
+        <Button
+          variant="ghost"
+          size="sm"
+          className={toolbarButton}
+          onMouseDown={keepFocus}
+          onClick={() => applyMarkup((text, start, end) => toggleHeading(text, start, end, 0))}
+          disabled={readOnly}
+          aria-label="Plain text"
+          title="Plain text (Ctrl+Alt+0)"
+        >
+          <Pilcrow className="h-4 w-4" />
+        </Button>
+        {headingLevels.map(({ level, icon: Icon }) => (
+          <Button
+            key={level}
+            variant="ghost"
+            size="sm"
+            className={toolbarButton}
+            onMouseDown={keepFocus}
+            onClick={() => applyMarkup((text, start, end) => toggleHeading(text, start, end, level))}
+            disabled={readOnly}
+            aria-label={`Heading ${level}`}
+            title={`Heading ${level} (Ctrl+Alt+${level})`}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className={toolbarButton}
+          onMouseDown={keepFocus}
+          onClick={() => applyMarkup(toggleBold)}
+          disabled={readOnly}
+          aria-label="Bold"
+          title="Bold (Ctrl+B)"
+        >
+          <Bold className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={toolbarButton}
+          onMouseDown={keepFocus}
+          onClick={() => applyMarkup((text, start, end) => toggleList(text, start, end, false))}
+          disabled={readOnly}
+          aria-label="Bulleted list"
+          title="Bulleted list"
+        >
+          <List className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={toolbarButton}
+          onMouseDown={keepFocus}
+          onClick={() => applyMarkup((text, start, end) => toggleList(text, start, end, true))}
+          disabled={readOnly}
+          aria-label="Numbered list"
+          title="Numbered list"
+        >
+          <ListOrdered className="h-4 w-4" />
+        </Button>
+
+        <div className="ml-auto flex gap-1">
+          <Button
+            variant={lineNumbers ? 'secondary' : 'ghost'}
+            size="sm"
+            className={toolbarButton}
+            onClick={() => setLineNumbers(!lineNumbers)}
+            aria-pressed={lineNumbers}
+            aria-label="Line numbers"
+            title="Line numbers"
+          >
+            <Hash className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={softWrap ? 'secondary' : 'ghost'}
+            size="sm"
+            className={toolbarButton}
+            onClick={() => setSoftWrap(!softWrap)}
+            aria-pressed={softWrap}
+            aria-label="Wrap long lines"
+            title="Wrap long lines"
+          >
+            <WrapText className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={toolbarButton}
+            onClick={() => setCollapsedPages(new Set(pageNumbers))}
+            aria-label="Collapse all pages"
+            title="Collapse all pages"
+          >
+            <ChevronsDownUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={toolbarButton}
+            onClick={() => setCollapsedPages(new Set())}
+            aria-label="Expand all pages"
+            title="Expand all pages"
+          >
+            <ChevronsUpDown className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="relative min-h-[400px] max-h-[600px] overflow-auto divide-y">
+        {pageNumbers.map((pageNumber) => {
+          const text = pages[pageNumber];
+          const isOpen = !collapsedPages.has(pageNumber);
+          const isRendered = nearPages.has(pageNumber) || pageNumber === activePage;
+          const highlights = isRendered
+            ? [
+                ...markupRanges(text).map((range) => ({ start: range.start, end: range.end, className: markupClasses[range.style] })),
+                ...(pageHighlights[pageNumber] ?? []),
+              ]
+            : [];
+          return (
+            <Collapsible
+              key={pageNumber}
+              ref={(element) => {
+                sectionRefs.current[pageNumber] = element;
+              }}
+              data-page={pageNumber}
+              open={isOpen}
+              onOpenChange={(open) => setCollapsed(pageNumber, !open)}
+            >
+              <div
+                className={cn(
+                  'sticky top-0 z-10 flex items-center gap-2 px-2 py-1 bg-muted/80 backdrop-blur-sm border-l-2 border-transparent',
+                  pageNumber === currentPage && 'border-primary'
+                )}
+              >
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-7 px-1 gap-1 font-medium">
+                    <ChevronRight className={cn('h-4 w-4 transition-transform', isOpen && 'rotate-90')} />
+                    Page {pageNumber}
+                  </Button>
+                </CollapsibleTrigger>
+                {pageNumber in editedPages && <Badge variant="secondary">Edited</Badge>}
+                {!text.trim() && <Badge variant="outline">Empty</Badge>}
+                {onPageSelect && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-7 w-7 p-0"
+                    onClick={() => onPageSelect(pageNumber)}
+                    aria-label={`Show page ${pageNumber} in the viewer`}
+                    title="Show in the viewer"
+                  >
+                    <LocateFixed className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <CollapsibleContent data-page-content>
+                {isRendered ? (
+                  <HighlightedTextarea
+                    ref={(element) => {
+                      textareaRefs.current[pageNumber] = element;
+                    }}
+                    className="w-full min-h-[2.5rem] px-4 py-2 bg-transparent text-sm text-foreground font-mono leading-relaxed resize-none focus:outline-none focus:ring-0 border-none"
+                    value={text}
+                    highlights={highlights}
+                    readOnly={readOnly}
+                    lineNumbers={lineNumbers}
+                    wrap={softWrap}
+                    autoResize
+                    aria-label={`Text of page ${pageNumber}`}
+                    onFocus={() => setActivePage(pageNumber)}
+                    onKeyDown={(e) => handleKeyDown(pageNumber, e)}
+                    onChange={(value) => onChangePage(pageNumber, value, 'typing')}
+                  />
+                ) : (
+                  <div style={{ height: contentHeights.current[pageNumber] ?? estimateHeight(text, softWrap) }} />
+                )}
+              </CollapsibleContent>
+            </Collapsible>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { FileDown, Loader2 } from 'lucide-react';
+import {
+  DEFAULT_PDF_EXPORT_OPTIONS,
+  pdfPageSizes,
+  type PdfExportOptions,
+  type PdfPageSize,
+} from '@/services/pdfExport';
+
+interface PdfExportDialogProps {
+  onExport: (options: PdfExportOptions) => Promise<void>;
+  disabled?: boolean;
+}
+
+const clamp = (value: number, min: number, max: number, fallback: number) =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+export const PdfExportDialog = ({ onExport, disabled }: PdfExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const update = (changes: Partial<PdfExportOptions>) => setOptions((current) => ({ ...current, ...changes }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport({
+        ...options,
+        margin: clamp(options.margin, 5, 50, DEFAULT_PDF_EXPORT_OPTIONS.margin),
+        fontSize: clamp(options.fontSize, 6, 36, DEFAULT_PDF_EXPORT_OPTIONS.fontSize),
+      });
+      setOpen(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <FileDown className="h-4 w-4 mr-1" />
+          Download PDF
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export as PDF</DialogTitle>
+          <DialogDescription>
+            The text is laid out over as many pages as it needs, in a font that covers most scripts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="pdf-page-size">Page size</Label>
+            <Select value={options.pageSize} onValueChange={(value) => update({ pageSize: value as PdfPageSize })}>
+              <SelectTrigger id="pdf-page-size" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pdfPageSizes.map((size) => (
+                  <SelectItem key={size.id} value={size.id}>{size.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pdf-margin">Margin (mm)</Label>
+            <Input
+              id="pdf-margin"
+              type="number"
+              min={5}
+              max={50}
+              value={Number.isFinite(options.margin) ? options.margin : ''}
+              onChange={(e) => update({ margin: e.target.valueAsNumber })}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pdf-font-size">Font size (pt)</Label>
+            <Input
+              id="pdf-font-size"
+              type="number"
+              min={6}
+              max={36}
+              value={Number.isFinite(options.fontSize) ? options.fontSize : ''}
+              onChange={(e) => update({ fontSize: e.target.valueAsNumber })}
+              className="h-9"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="pdf-header">File name in the header</Label>
+            <Switch id="pdf-header" checked={options.header} onCheckedChange={(header) => update({ header })} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="pdf-page-numbers">Page numbers in the footer</Label>
+            <Switch
+              id="pdf-page-numbers"
+              checked={options.pageNumbers}
+              onCheckedChange={(pageNumbers) => update({ pageNumbers })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOptions(DEFAULT_PDF_EXPORT_OPTIONS)}>
+            Reset
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Export PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
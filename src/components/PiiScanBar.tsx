@@ -0,0 +1,61 @@
+import { Button } from '@/components/ui/button';
+import { ShieldCheck, X } from 'lucide-react';
+import { piiCategories, type PiiCategory, type PiiFinding } from '@/services/piiDetection';
+
+interface PiiScanBarProps {
+  findings: PiiFinding[];
+  /** Highlight class of each category, matching the marks in the text */
+  categoryColors: Record<PiiCategory, string>;
+  /** Categories that are highlighted and replaced */
+  enabledCategories: Set<PiiCategory>;
+  onToggleCategory: (category: PiiCategory) => void;
+  onMask: () => void;
+  onPseudonymize: () => void;
+  onClose: () => void;
+}
+
+export const PiiScanBar = ({
+  findings,
+  categoryColors,
+  enabledCategories,
+  onToggleCategory,
+  onMask,
+  onPseudonymize,
+  onClose,
+}: PiiScanBarProps) => {
+  const counts = new Map<PiiCategory, number>();
+  findings.forEach((finding) => counts.set(finding.category, (counts.get(finding.category) ?? 0) + 1));
+  const selectedCount = findings.filter((finding) => enabledCategories.has(finding.category)).length;
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap rounded-md border bg-muted/40 px-2 py-1">
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <ShieldCheck className="h-4 w-4" />
+        {findings.length ? `${findings.length} personal data ${findings.length === 1 ? 'finding' : 'findings'}` : 'No personal data found'}
+      </span>
+      {piiCategories.filter((category) => counts.has(category.id)).map((category) => (
+        <button
+          key={category.id}
+          type="button"
+          className={`rounded-full px-2 py-0.5 text-xs ${enabledCategories.has(category.id) ? categoryColors[category.id] : 'bg-muted text-muted-foreground line-through'}`}
+          onClick={() => onToggleCategory(category.id)}
+          aria-pressed={enabledCategories.has(category.id)}
+          title={enabledCategories.has(category.id) ? `Leave ${category.label.toLowerCase()} findings as they are` : `Include ${category.label.toLowerCase()} findings`}
+        >
+          {category.label} {counts.get(category.id)}
+        </button>
+      ))}
+      <div className="ml-auto flex items-center gap-1">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onMask} disabled={!selectedCount} title="Replace letters and digits with asterisks">
+          Mask
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onPseudonymize} disabled={!selectedCount} title="Replace each value with a placeholder such as [EMAIL 1]">
+          Pseudonymize
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onClose} aria-label="Close personal data scan">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import { Button } from '@/components/ui/button';
+import { Download, Loader2, ScanSearch, Trash2, X } from 'lucide-react';
+
+interface RedactionBarProps {
+  redactionCount: number;
+  /** Matches of the current search, which can be redacted all at once */
+  matchCount: number;
+  onRedactMatches: () => void;
+  onClear: () => void;
+  onExport: () => void;
+  isExporting: boolean;
+  onClose: () => void;
+}
+
+export const RedactionBar = ({
+  redactionCount,
+  matchCount,
+  onRedactMatches,
+  onClear,
+  onExport,
+  isExporting,
+  onClose,
+}: RedactionBarProps) => (
+  <div className="flex items-center gap-1 w-full rounded-md border border-destructive/40 bg-destructive/5 px-2 py-1">
+    <span className="flex-1 text-xs text-muted-foreground">
+      Drag over a page to mark an area · {redactionCount} {redactionCount === 1 ? 'area' : 'areas'} marked
+    </span>
+    {matchCount > 0 && (
+      <Button variant="ghost" size="sm" className="h-8 px-2 text-xs gap-1" onClick={onRedactMatches} title="Mark every search match for redaction">
+        <ScanSearch className="h-4 w-4" />
+        Redact {matchCount} {matchCount === 1 ? 'match' : 'matches'}
+      </Button>
+    )}
+    <Button variant="ghost" size="sm" className="h-8 px-2" onClick={onClear} disabled={!redactionCount} aria-label="Remove all redactions" title="Remove all redactions">
+      <Trash2 className="h-4 w-4" />
+    </Button>
+    <Button
+      variant="outline"
+      size="sm"
+      className="h-8 px-2 text-xs gap-1"
+      onClick={onExport}
+      disabled={!redactionCount || isExporting}
+      title="Download a copy with the marked areas removed"
+    >
+      {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+      Redacted PDF
+    </Button>
+    <Button variant="ghost" size="sm" className="h-8 px-2" onClick={onClose} aria-label="Close redaction mode">
+      <X className="h-4 w-4" />
+    </Button>
+  </div>
+);
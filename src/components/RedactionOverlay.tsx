@@ -0,0 +1,101 @@
+import { useState, type PointerEvent } from 'react';
+import { X } from 'lucide-react';
+import type { BoundingBox } from '@/services/documentModel';
+import type { PageSize } from '@/services/pageExtraction';
+import { rotateBox, unrotateRect, type Point } from '@/services/pageGeometry';
+import type { Redaction } from '@/services/redaction';
+
+// Drags smaller than this, in page units, are taken as clicks
+const MIN_REDACTION_SIZE = 3;
+
+interface RedactionOverlayProps {
+  redactions: Redaction[];
+  /** Unrotated size of the page */
+  pageSize: PageSize;
+  scale: number;
+  rotation: number;
+  /** Whether areas can be drawn and removed */
+  isEditing: boolean;
+  onAdd: (rect: BoundingBox) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Black boxes previewing the redactions of one page. While editing, dragging
+ * over the page marks a new area.
+ */
+export const RedactionOverlay = ({ redactions, pageSize, scale, rotation, isEditing, onAdd, onRemove }: RedactionOverlayProps) => {
+  const [drag, setDrag] = useState<{ start: Point; end: Point } | null>(null);
+  const displayed = rotation % 180 !== 0 ? { width: pageSize.height, height: pageSize.width } : pageSize;
+
+  const toDisplayPoint = (event: PointerEvent<HTMLDivElement>): Point => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return { x: (event.clientX - bounds.left) / scale, y: (event.clientY - bounds.top) / scale };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || event.target !== event.currentTarget) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toDisplayPoint(event);
+    setDrag({ start: point, end: point });
+  };
+
+  const handlePointerUp = () => {
+    if (drag) {
+      const rect = unrotateRect(drag.start, drag.end, pageSize, rotation);
+      if (rect.width >= MIN_REDACTION_SIZE && rect.height >= MIN_REDACTION_SIZE) onAdd(rect);
+    }
+    setDrag(null);
+  };
+
+  const dragBox = drag && {
+    x: Math.min(drag.start.x, drag.end.x),
+    y: Math.min(drag.start.y, drag.end.y),
+    width: Math.abs(drag.end.x - drag.start.x),
+    height: Math.abs(drag.end.y - drag.start.y),
+  };
+
+  return (
+    <div
+      className={`absolute inset-0 z-30 ${isEditing ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+      onPointerDown={isEditing ? handlePointerDown : undefined}
+      onPointerMove={drag ? (event) => setDrag({ ...drag, end: toDisplayPoint(event) }) : undefined}
+      onPointerUp={isEditing ? handlePointerUp : undefined}
+      onPointerCancel={() => setDrag(null)}
+    >
+      {redactions.map((redaction) => {
+        const box = rotateBox(redaction.rect, pageSize, rotation);
+        return (
+          <div
+            key={redaction.id}
+            className="group absolute bg-black"
+            style={{ left: box.x * scale, top: box.y * scale, width: box.width * scale, height: box.height * scale }}
+            title={redaction.text || undefined}
+          >
+            {isEditing && (
+              <button
+                type="button"
+                className="absolute -right-2 -top-2 hidden h-4 w-4 items-center justify-center rounded-full bg-destructive text-destructive-foreground group-hover:flex"
+                onClick={() => onRemove(redaction.id)}
+                aria-label="Remove redaction"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {dragBox && (
+        <div
+          className="absolute border-2 border-dashed border-destructive bg-black/40"
+          style={{
+            left: dragBox.x * scale,
+            top: dragBox.y * scale,
+            width: Math.min(dragBox.width, displayed.width - dragBox.x) * scale,
+            height: Math.min(dragBox.height, displayed.height - dragBox.y) * scale,
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button';
+
+interface ReplaceEditsDialogProps {
+  /** Numbers of the pages with edits */
+  editedPages: number[];
+  onKeepEdits: () => void;
+  onDiscardEdits: () => void;
+  onCancel: () => void;
+}
+
+const describePages = (pages: number[]) =>
+  pages.length === 1 ? `Page ${pages[0]} was` : `${pages.length} pages (${pages.join(', ')}) were`;
+
+/**
+ * Asks before a new extraction replaces text the user edited
+ */
+export const ReplaceEditsDialog = ({ editedPages, onKeepEdits, onDiscardEdits, onCancel }: ReplaceEditsDialogProps) => (
+  <AlertDialog open onOpenChange={(open) => !open && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Replace edited text?</AlertDialogTitle>
+        <AlertDialogDescription>
+          {describePages(editedPages)} edited in the text panel. The new extraction can update the other pages
+          only, or replace your edits too. Undo brings discarded edits back.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction className={buttonVariants({ variant: 'outline' })} onClick={onDiscardEdits}>
+          Discard edits
+        </AlertDialogAction>
+        <AlertDialogAction onClick={onKeepEdits}>Keep edits</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
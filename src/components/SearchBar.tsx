@@ -0,0 +1,83 @@
+import { forwardRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import { ChevronDown, ChevronUp, Regex, WholeWord, CaseSensitive, X } from 'lucide-react';
+import type { SearchOptions } from '@/services/search';
+
+interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  matchCount: number;
+  activeIndex: number;
+  error?: string | null;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+export const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(({
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  matchCount,
+  activeIndex,
+  error,
+  onNext,
+  onPrevious,
+  onClose,
+}, ref) => {
+  const toggleOption = (key: keyof SearchOptions) => (pressed: boolean) =>
+    onOptionsChange({ ...options, [key]: pressed });
+
+  return (
+    <div className="flex items-center gap-1 w-full">
+      <Input
+        ref={ref}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.shiftKey) {
+              onPrevious();
+            } else {
+              onNext();
+            }
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+        placeholder="Search in document"
+        aria-invalid={!!error}
+        className={`h-8 ${error ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+      />
+      <span className="text-xs text-muted-foreground whitespace-nowrap min-w-[4.5rem] text-center" title={error ?? undefined}>
+        {error ? 'Invalid regex' : query ? `${matchCount ? activeIndex + 1 : 0} of ${matchCount}` : ''}
+      </span>
+      <Toggle size="sm" className="h-8 px-2" pressed={options.caseSensitive} onPressedChange={toggleOption('caseSensitive')} aria-label="Match case" title="Match case">
+        <CaseSensitive className="h-4 w-4" />
+      </Toggle>
+      <Toggle size="sm" className="h-8 px-2" pressed={options.wholeWord} onPressedChange={toggleOption('wholeWord')} aria-label="Whole word" title="Whole word">
+        <WholeWord className="h-4 w-4" />
+      </Toggle>
+      <Toggle size="sm" className="h-8 px-2" pressed={options.regex} onPressedChange={toggleOption('regex')} aria-label="Regular expression" title="Regular expression">
+        <Regex className="h-4 w-4" />
+      </Toggle>
+      <Button variant="ghost" size="sm" className="h-8 px-2" onClick={onPrevious} disabled={!matchCount} aria-label="Previous match">
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8 px-2" onClick={onNext} disabled={!matchCount} aria-label="Next match">
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-8 px-2" onClick={onClose} aria-label="Close search">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+});
+SearchBar.displayName = 'SearchBar';
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { GitCompare, History, RotateCcw, Trash2 } from 'lucide-react';
+import type { TextSnapshot } from '@/services/textHistory';
+
+interface SnapshotsPopoverProps {
+  snapshots: TextSnapshot[];
+  /** The unedited extraction, always offered as the first snapshot */
+  rawText: string;
+  onSave: (name: string) => void;
+  /** Restore a snapshot, or the raw extraction when null */
+  onRestore: (snapshot: TextSnapshot | null) => void;
+  onCompare: (name: string, text: string) => void;
+  onRemove: (snapshotId: string) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_NAME = 'Manual edits';
+
+const timeFormat = new Intl.DateTimeFormat(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+export const SnapshotsPopover = ({ snapshots, rawText, onSave, onRestore, onCompare, onRemove, disabled }: SnapshotsPopoverProps) => {
+  const [name, setName] = useState('');
+
+  const save = () => {
+    onSave(name.trim() || DEFAULT_NAME);
+    setName('');
+  };
+
+  const renderEntry = (key: string, label: string, detail: string, text: string, snapshot: TextSnapshot | null) => (
+    <li key={key} className="flex items-center gap-1 py-1.5">
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm">{label}</p>
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </div>
+      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onCompare(label, text)} aria-label={`Compare with ${label}`} title="Compare with the current text">
+        <GitCompare className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onRestore(snapshot)} aria-label={`Restore ${label}`} title="Restore; undo brings the current text back">
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+      {snapshot && (
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onRemove(snapshot.id)} aria-label={`Delete ${label}`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </li>
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <History className="h-4 w-4 mr-1" />
+          Snapshots
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+        >
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={DEFAULT_NAME}
+            aria-label="Snapshot name"
+            className="h-8"
+          />
+          <Button type="submit" size="sm" className="h-8">
+            Save
+          </Button>
+        </form>
+        <p className="text-xs text-muted-foreground">Saving under an existing name replaces that snapshot.</p>
+        <ul className="max-h-64 overflow-auto divide-y">
+          {renderEntry('raw', 'Raw extraction', 'Text as extracted from the PDF', rawText, null)}
+          {[...snapshots].reverse().map((snapshot) =>
+            renderEntry(snapshot.id, snapshot.name, timeFormat.format(snapshot.createdAt), snapshot.text, snapshot)
+          )}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,91 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileSpreadsheet, Sheet, Table2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/utils';
+import { tableToCsv, tableToXlsx } from '@/services/tableExport';
+import type { DetectedTable } from '@/services/tableDetection';
+
+interface TablesViewProps {
+  tables: DetectedTable[];
+  fileName?: string;
+}
+
+export const TablesView = ({ tables, fileName }: TablesViewProps) => {
+  const { toast } = useToast();
+  const baseName = fileName ? fileName.replace('.pdf', '') : 'extracted';
+
+  const exportTable = (table: DetectedTable, index: number, format: 'csv' | 'xlsx') => {
+    const name = `${baseName}_page${table.pageNumber}_table${index + 1}.${format}`;
+    try {
+      downloadBlob(format === 'csv' ? tableToCsv(table.rows) : tableToXlsx(table.rows, `Page ${table.pageNumber}`), name);
+      toast({
+        title: 'Download started',
+        description: `Table saved as ${name}`,
+      });
+    } catch (error) {
+      console.error('Table export failed:', error);
+      toast({
+        title: 'Export failed',
+        description: 'Failed to export the table',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!tables.length) {
+    return (
+      <div className="flex items-center justify-center h-[400px] text-muted-foreground">
+        <div className="text-center">
+          <Table2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No tables detected in the extracted pages</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-h-[600px] overflow-auto">
+      {tables.map((table, index) => (
+        <div key={table.id} className="border rounded-lg bg-white dark:bg-gray-900">
+          <div className="flex items-center justify-between gap-2 p-2 border-b flex-wrap">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Table {index + 1}</span>
+              <Badge variant="outline">Page {table.pageNumber}</Badge>
+              <Badge variant="outline">{table.rows.length} × {table.columnCount}</Badge>
+            </div>
+            <div className="flex gap-1">
+              <Button variant="outline" size="sm" onClick={() => exportTable(table, index, 'csv')}>
+                <Sheet className="h-4 w-4 mr-1" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportTable(table, index, 'xlsx')}>
+                <FileSpreadsheet className="h-4 w-4 mr-1" />
+                XLSX
+              </Button>
+            </div>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {table.rows[0].map((cell, cellIndex) => (
+                  <TableHead key={cellIndex} className="h-9 whitespace-nowrap">{cell}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {table.rows.slice(1).map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {row.map((cell, cellIndex) => (
+                    <TableCell key={cellIndex} className="py-1.5">{cell}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ))}
+    </div>
+  );
+};
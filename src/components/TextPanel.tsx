@@ -1,33 +1,169 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, type KeyboardEvent } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Copy, Download, FileText, Loader2, FileDown } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Copy, Download, FileText, Loader2, FileCode, FileType, FileSearch, EyeOff, ShieldCheck, X, Undo2, Redo2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { correctText } from '@/services/openai';
-import { jsPDF } from 'jspdf';
+import { correctTextWithAI } from '@/services/openai';
+import { cleanText } from '@/services/textCleanup';
+import { useCleanupSettings } from '@/hooks/use-cleanup-settings';
+import { CleanupSettingsDialog } from '@/components/CleanupSettingsDialog';
+import { AiSettingsDialog } from '@/components/AiSettingsDialog';
+import { FormatReviewDialog } from '@/components/FormatReviewDialog';
+import { SnapshotsPopover } from '@/components/SnapshotsPopover';
+import { PdfExportDialog } from '@/components/PdfExportDialog';
+import { TablesView } from '@/components/TablesView';
+import { PageSectionsEditor } from '@/components/PageSectionsEditor';
+import type { TextHighlight } from '@/components/HighlightedTextarea';
+import { PiiScanBar } from '@/components/PiiScanBar';
+import { detectTables } from '@/services/tableDetection';
+import { structureToMarkdown } from '@/services/markdownExport';
+import { editedDocumentStructure, textToStructure } from '@/services/documentStructure';
+import { structureToDocx } from '@/services/docxExport';
+import { textToPdf, type PdfExportOptions } from '@/services/pdfExport';
+import { addTextLayer } from '@/services/textLayerExport';
+import { redactText, type Redaction } from '@/services/redaction';
+import { splitIntoPages } from '@/services/pageEdits';
+import { stripMarkup } from '@/services/textMarkup';
+import { joinPageTexts } from '@/services/pageSeparators';
+import { detectPii, piiCategories, replacePii, type PiiCategory, type PiiReplacement } from '@/services/piiDetection';
+import { downloadBlob } from '@/lib/utils';
+import type { DocumentModel } from '@/services/documentModel';
+import type { TextEditKind, TextSnapshot } from '@/services/textHistory';
+
+// Snapshot that each applied formatter run is saved as
+const AFTER_FORMAT_SNAPSHOT = 'After format';
+
+// Highlight colors of personal data categories in the text
+const piiCategoryColors: Record<PiiCategory, string> = {
+  email: 'bg-blue-200 dark:bg-blue-900',
+  phone: 'bg-green-200 dark:bg-green-900',
+  iban: 'bg-amber-200 dark:bg-amber-900',
+  nationalId: 'bg-red-200 dark:bg-red-900',
+  url: 'bg-purple-200 dark:bg-purple-900',
+  birthDate: 'bg-pink-200 dark:bg-pink-900',
+};
 
 interface TextPanelProps {
   extractedText: string;
   fileName?: string;
-  onUpdateExtractedText?: (text: string) => void;
+  /** Typing edits are undone in bursts, other changes one at a time */
+  onUpdateExtractedText?: (text: string, kind?: TextEditKind) => void;
+  /** Text of each page as shown, edited in a section of its own */
+  pageTexts?: Record<number, string>;
+  onUpdatePageText?: (pageNumber: number, text: string, kind: TextEditKind) => void;
+  /** Page in view in the PDF viewer, and a way to bring another one into view */
+  currentPage?: number;
+  onPageSelect?: (pageNumber: number) => void;
   isLoading?: boolean;
+  /** Structured text of the document, used to find tables */
+  documentModel?: DocumentModel;
+  /** Read multi-column pages column by column in structured exports */
+  columnLayout?: boolean;
+  /** Text of the pages changed after extraction, which no longer match the document model */
+  editedPages?: Record<number, string>;
+  /** The original PDF, which corrected text can be written back into */
+  file?: File;
+  /** Areas marked in the viewer, blacked out in the text on request */
+  redactions?: Redaction[];
+  /** The text as extracted, before any edits */
+  rawText?: string;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  snapshots?: TextSnapshot[];
+  onSaveSnapshot?: (name: string, text: string) => void;
+  onRemoveSnapshot?: (snapshotId: string) => void;
+  /** Drop all edits and show the extraction again */
+  onRestoreRawText?: () => void;
 }
 
-export const TextPanel = ({ extractedText, fileName, onUpdateExtractedText, isLoading }: TextPanelProps) => {
+export const TextPanel = ({
+  extractedText,
+  fileName,
+  onUpdateExtractedText,
+  pageTexts,
+  onUpdatePageText,
+  currentPage,
+  onPageSelect,
+  isLoading,
+  documentModel,
+  columnLayout,
+  editedPages = {},
+  file,
+  redactions = [],
+  rawText = '',
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  snapshots = [],
+  onSaveSnapshot,
+  onRemoveSnapshot,
+  onRestoreRawText,
+}: TextPanelProps) => {
   const { toast } = useToast();
+  const { disabledRules, pageSeparator } = useCleanupSettings();
   const [isFixing, setIsFixing] = useState(false);
   const [isUsingAI, setIsUsingAI] = useState(false);
+  const [formatReview, setFormatReview] = useState<{
+    title: string;
+    original: string;
+    proposed: string;
+    /** Name of the snapshot compared with, null for a formatter run */
+    snapshotName: string | null;
+  } | null>(null);
+  const [aiProgress, setAiProgress] = useState<{ completed: number; total: number } | null>(null);
+  const correctionRef = useRef<AbortController | null>(null);
+  const [isWritingTextLayer, setIsWritingTextLayer] = useState(false);
   const [editableText, setEditableText] = useState(extractedText);
+  const [isPiiScanOpen, setIsPiiScanOpen] = useState(false);
+  const [piiEnabledCategories, setPiiEnabledCategories] = useState<Set<PiiCategory>>(
+    () => new Set(piiCategories.map((category) => category.id))
+  );
+  const tables = useMemo(() => (documentModel ? detectTables(documentModel) : []), [documentModel]);
+  const piiFindings = useMemo(() => (isPiiScanOpen ? detectPii(editableText) : []), [isPiiScanOpen, editableText]);
+  const selectedPiiFindings = piiFindings.filter((finding) => piiEnabledCategories.has(finding.category));
+  // The shown text split into its pages, also while a formatter streams into it
+  const sectionTexts = useMemo(
+    () => splitIntoPages(pageTexts ?? {}, pageSeparator, editableText),
+    [pageTexts, pageSeparator, editableText]
+  );
+  const piiPageFindings = useMemo(
+    () => (isPiiScanOpen
+      ? Object.entries(sectionTexts).map(([pageNumber, text]) => [Number(pageNumber), detectPii(text)] as const)
+      : []),
+    [isPiiScanOpen, sectionTexts]
+  );
+  const piiHighlights: Record<number, TextHighlight[]> = Object.fromEntries(piiPageFindings.map(([pageNumber, findings]) => [
+    pageNumber,
+    findings
+      .filter((finding) => piiEnabledCategories.has(finding.category))
+      .map((finding) => ({
+        start: finding.start,
+        end: finding.end,
+        className: piiCategoryColors[finding.category],
+        title: piiCategories.find((category) => category.id === finding.category).label,
+      })),
+  ]));
   
   // Update editable text when extractedText changes
   useEffect(() => {
     setEditableText(extractedText);
   }, [extractedText]);
 
+  // Stop formatting when another document is shown or the panel goes away,
+  // and drop a review that was made against text that has changed since
+  useEffect(() => () => {
+    correctionRef.current?.abort();
+    setFormatReview(null);
+  }, [extractedText]);
+
   const copyToClipboard = async () => {
   try {
-      await navigator.clipboard.writeText(extractedText);
+      await navigator.clipboard.writeText(editableText);
       toast({
         title: "Text copied",
         description: "Extracted text has been copied to clipboard",
@@ -42,7 +178,7 @@ export const TextPanel = ({ extractedText, fileName, onUpdateExtractedText, isLo
   };
 
   const downloadText = () => {
-    const blob = new Blob([editableText], { type: 'text/plain' });
+    const blob = new Blob([stripMarkup(editableText)], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -58,19 +194,10 @@ export const TextPanel = ({ extractedText, fileName, onUpdateExtractedText, isLo
     });
   };
   
-  const downloadAsPDF = () => {
+  const downloadAsPDF = async (options: PdfExportOptions) => {
     try {
-      const doc = new jsPDF();
-      
-      // Split text into lines to fit on PDF page
-      const textLines = doc.splitTextToSize(editableText, 180);
-      
-      // Add text to PDF
-      doc.setFontSize(12);
-      doc.text(textLines, 15, 15);
-      
-      // Save PDF
-      doc.save(`${fileName ? fileName.replace('.pdf', '') : 'edited'}_document.pdf`);
+      const blob = await textToPdf(stripMarkup(editableText), options, fileName);
+      downloadBlob(blob, `${fileName ? fileName.replace('.pdf', '') : 'edited'}_document.pdf`);
       
       toast({
         title: "PDF Download started",
@@ -86,87 +213,107 @@ export const TextPanel = ({ extractedText, fileName, onUpdateExtractedText, isLo
     }
   };
 
-const wordCount = editableText.trim().split(/\s+/).filter(word => word.length > 0).length;
-const charCount = editableText.length;
+  // Structured exports keep the PDF's structure for unedited pages and read edited pages from their text
+  const exportStructure = () =>
+    documentModel?.pages.length
+      ? editedDocumentStructure(documentModel, editedPages, { columnLayout })
+      : textToStructure(editableText, { pageSeparator });
 
-const refineLocally = (text: string) => {
-  if (!text) return '';
-  
-  let t = text;
-  
-  // Remove emojis
-  t = t.replace(/[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F700}-\u{1F77F}\u{1F780}-\u{1F7FF}\u{1F800}-\u{1F8FF}\u{1F900}-\u{1F9FF}\u{1FA00}-\u{1FA6F}\u{1FA70}-\u{1FAFF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu, '');
-  
-  // Remove page break markers
-  t = t.replace(/---\s*Page\s*Break\s*---/gi, '');
-  
-  // Replace bullet symbols with spaces but preserve the text content
-  t = t.replace(/([\u2022\u25cf\u25a0\u25c6\u25cb\u25e6-])\s*/g, ''); // Replace bullet symbols with nothing
-  t = t.replace(/\|/g, ''); // Remove vertical bars
-  
-  // Fix spaced out letters (e.g., "A d m i n" -> "Admin")
-  t = fixSpacedLetters(t);
-  
-  // Basic cleanup
-  t = t.replace(/-\n/g, ''); // Join hyphenated words across lines
-  t = t.replace(/\r/g, ''); // Remove carriage returns
-  t = t.replace(/[ \t]+/g, ' '); // Replace multiple spaces/tabs with a single space
-  t = t.replace(/[ \t]+\n/g, '\n'); // Remove spaces at end of lines
-  t = t.replace(/\n[ \t]+/g, '\n'); // Remove spaces at beginning of lines
-  
-  // Fix common PDF extraction issues
-  t = t.replace(/([a-z])- ?\n([a-z])/gi, '$1$2'); // Fix hyphenated words across lines
-  t = t.replace(/([a-z])\n([a-z])/gi, '$1 $2'); // Join words broken across lines without hyphen
-  
-  // Improve section separation for date ranges and job titles
-  // Format MM/YYYY - MM/YYYY or MM/YYYY - Present
-  t = t.replace(/(\d{1,2}\/\d{4})\s*[-–—]\s*(\d{1,2}\/\d{4}|Present)/gi, '\n\n$&\n');
-  
-  // Format YYYY - YYYY or YYYY - Present
-  t = t.replace(/(?<!\d)(\d{4})\s*[-–—]\s*(\d{4}|Present)(?!\d)/gi, '\n\n$&\n');
-  
-  // Handle job titles and positions
-  t = t.replace(/^(.{0,50})(Project Manager|Head Of|Director|Manager|Engineer|Developer|Designer|Consultant|Analyst|Specialist)/gim, '\n\n$1$2');
-  
-  // Add spacing after common section headers
-  const sectionHeaders = ['Experience', 'Education', 'Skills', 'Languages', 'Projects', 'Certifications', 'References', 'Responsibilities', 'Achievements', 'Key responsibilities'];
-  const sectionRegex = new RegExp(`(^|\n)\s*\b(${sectionHeaders.join('|')})\b[^\n]*`, 'gim');
-  t = t.replace(sectionRegex, '\n\n$&\n');
-  
-  // Improve paragraph structure
-  t = t.replace(/\n{3,}/g, '\n\n'); // Replace 3+ newlines with just 2
-  t = t.replace(/([.!?])\s+(?=[A-Z])/g, '$1\n\n'); // Add paragraph breaks after sentences
-  t = t.replace(/\n{3,}/g, '\n\n'); // Clean up any resulting excessive newlines
-  
-  return t.trim();
-};
+  const downloadMarkdown = () => {
+    try {
+      const markdown = structureToMarkdown(exportStructure());
+      downloadBlob(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), `${fileName ? fileName.replace('.pdf', '') : 'extracted'}.md`);
+      toast({
+        title: "Download started",
+        description: "Document has been saved as Markdown",
+      });
+    } catch (error) {
+      console.error('Error generating Markdown:', error);
+      toast({
+        title: "Markdown export failed",
+        description: "Failed to convert the document to Markdown",
+        variant: "destructive",
+      });
+    }
+  };
 
-// Function to fix spaced out letters (e.g., "A d m i n" -> "Admin")
-const fixSpacedLetters = (text: string): string => {
-  // Pattern to detect single letters separated by spaces
-  const singleLetterPattern = /(?:\b([a-zA-Z]) )+([a-zA-Z])\b/g;
-  
-  // Find all instances of spaced out letters
-  const matches = Array.from(text.matchAll(singleLetterPattern));
-  
-  // If no matches, return the original text
-  if (matches.length === 0) return text;
-  
-  // Process each match
-  let result = text;
-  for (const match of matches) {
-    const fullMatch = match[0];
-    // Join the letters without spaces
-    const joined = fullMatch.replace(/ /g, '');
-    
-    // Only replace if the joined version is likely a real word (more than 2 letters)
-    if (joined.length > 2) {
-      result = result.replace(fullMatch, joined);
+  const downloadDocx = () => {
+    try {
+      downloadBlob(structureToDocx(exportStructure()), `${fileName ? fileName.replace('.pdf', '') : 'extracted'}.docx`);
+      toast({
+        title: "Download started",
+        description: "Document has been saved as DOCX",
+      });
+    } catch (error) {
+      console.error('Error generating DOCX:', error);
+      toast({
+        title: "DOCX export failed",
+        description: "Failed to convert the document to DOCX",
+        variant: "destructive",
+      });
     }
-  }
-  
-  return result;
-};
+  };
+
+  const downloadSearchablePdf = async () => {
+    if (!file || !documentModel) return;
+    try {
+      setIsWritingTextLayer(true);
+      const pages = Object.fromEntries(Object.entries(sectionTexts).map(([pageNumber, text]) => [pageNumber, stripMarkup(text)]));
+      const bytes = await addTextLayer(file, documentModel, pages, { columnLayout });
+      downloadBlob(new Blob([bytes], { type: 'application/pdf' }), `${file.name.replace('.pdf', '')}_searchable.pdf`);
+      toast({
+        title: "Download started",
+        description: "The corrected text was added to the PDF as a searchable layer",
+      });
+    } catch (error) {
+      console.error('Error writing text layer:', error);
+      toast({
+        title: "Searchable PDF failed",
+        description: "Failed to add the text to the original PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWritingTextLayer(false);
+    }
+  };
+
+  const applyRedactions = () => {
+    if (!documentModel || !redactions.length) return;
+    const redacted = redactText(editableText, documentModel, redactions, { columnLayout });
+    setEditableText(redacted);
+    onUpdateExtractedText?.(redacted);
+    toast({
+      title: redacted === editableText ? "Nothing to redact" : "Redactions applied",
+      description: redacted === editableText
+        ? "No text was found under the marked areas"
+        : "Text under the marked areas was blacked out",
+    });
+  };
+
+  const togglePiiCategory = (category: PiiCategory) => {
+    const next = new Set(piiEnabledCategories);
+    if (next.has(category)) {
+      next.delete(category);
+    } else {
+      next.add(category);
+    }
+    setPiiEnabledCategories(next);
+  };
+
+  const replacePersonalData = (mode: PiiReplacement) => {
+    const replaced = replacePii(editableText, selectedPiiFindings, mode);
+    setEditableText(replaced);
+    onUpdateExtractedText?.(replaced);
+    toast({
+      title: mode === 'mask' ? "Personal data masked" : "Personal data pseudonymized",
+      description: `${selectedPiiFindings.length} ${selectedPiiFindings.length === 1 ? 'finding was' : 'findings were'} replaced`,
+    });
+  };
+
+const wordCount = editableText.trim().split(/\s+/).filter(word => word.length > 0).length;
+const charCount = editableText.length;
+
+const refineLocally = (text: string) => cleanText(text, 'page', { disabledRules });
 
 // Basic text formatting using local functions
 const fixTextLocally = async () => {
@@ -190,39 +337,123 @@ const fixTextLocally = async () => {
   }
 };
 
-// Advanced text correction using local formatting
+// Formatter output is only written back once its changes are reviewed
+const reviewFormatting = (title: string, proposed: string) => {
+  if (proposed === extractedText) {
+    toast({ title: 'Nothing to change', description: 'The formatter proposed no changes.' });
+    return;
+  }
+  setFormatReview({ title, original: extractedText, proposed, snapshotName: null });
+};
+
+const compareWithSnapshot = (name: string, text: string) => {
+  if (text === extractedText) {
+    toast({ title: 'No differences', description: `The text matches "${name}".` });
+    return;
+  }
+  setFormatReview({ title: `Compare with "${name}"`, original: extractedText, proposed: text, snapshotName: name });
+};
+
+const applyReview = (text: string, acceptedCount: number) => {
+  const snapshotName = formatReview?.snapshotName;
+  setFormatReview(null);
+  onUpdateExtractedText?.(text);
+  const changes = `${acceptedCount} ${acceptedCount === 1 ? 'change' : 'changes'}`;
+  if (snapshotName) {
+    toast({ title: 'Snapshot changes applied', description: `Took ${changes} from "${snapshotName}".` });
+    return;
+  }
+  onSaveSnapshot?.(AFTER_FORMAT_SNAPSHOT, text);
+  toast({ 
+    title: 'Text formatting complete', 
+    description: `Applied ${changes}. Saved as the "${AFTER_FORMAT_SNAPSHOT}" snapshot.`
+  });
+};
+
+const restoreSnapshot = (snapshot: TextSnapshot | null) => {
+  if (snapshot) onUpdateExtractedText?.(snapshot.text);
+  else onRestoreRawText?.();
+  toast({ title: `Restored "${snapshot?.name ?? 'Raw extraction'}"`, description: 'Undo brings the previous text back.' });
+};
+
+const updatePageText = (pageNumber: number, text: string, kind: TextEditKind) => {
+  const joined = joinPageTexts({ ...sectionTexts, [pageNumber]: text }, pageSeparator);
+  setEditableText(joined);
+  if (onUpdatePageText) onUpdatePageText(pageNumber, text, kind);
+  else onUpdateExtractedText?.(joined, kind);
+};
+
+// Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y) go through the document history, not the textarea's own
+const handleEditorKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+  const key = e.key.toLowerCase();
+  if (key === 'z' || key === 'y') {
+    e.preventDefault();
+    if (isUsingAI) return;
+    if (key === 'y' || e.shiftKey) onRedo?.();
+    else onUndo?.();
+  }
+};
+
+// Text correction with the provider chosen in the AI settings, streamed into the text box
 const fixTextWithAI = async () => {
   if (!extractedText?.trim()) return;
   
+  const controller = new AbortController();
+  correctionRef.current = controller;
+  let fallbackCount = 0;
+  let fallbackError: Error | undefined;
   try {
     setIsUsingAI(true);
     
-    // Apply enhanced local text formatting
-    const formattedText = await Promise.resolve(correctText(extractedText));
-    onUpdateExtractedText?.(formattedText);
-    
-    toast({ 
-      title: 'Text formatting complete', 
-      description: 'Text improved with advanced formatting rules.'
+    const formattedText = await correctTextWithAI(splitIntoPages(pageTexts ?? {}, pageSeparator, extractedText), {
+      signal: controller.signal,
+      onProgress: ({ text, completed, total }) => {
+        setEditableText(text);
+        setAiProgress({ completed, total });
+      },
+      onFallback: (error) => {
+        fallbackCount++;
+        fallbackError = error;
+      },
     });
-  } catch (e: any) {
+    setEditableText(extractedText);
+    reviewFormatting('Review formatting changes', formattedText);
+    
+    if (fallbackError) {
+      toast({
+        title: 'Formatted partly with local rules',
+        description: `${fallbackCount} ${fallbackCount === 1 ? 'part' : 'parts'} could not be corrected by the provider: ${fallbackError.message}`,
+        variant: 'destructive'
+      });
+    }
+  } catch (e) {
+    if (controller.signal.aborted) {
+      toast({ title: 'Formatting cancelled', description: 'The text was left as it was.' });
+      return;
+    }
     console.error('Text formatting error:', e);
     
     // Fall back to basic formatting
-    const locallyRefined = refineLocally(extractedText);
-    onUpdateExtractedText?.(locallyRefined);
+    setEditableText(extractedText);
+    reviewFormatting('Review basic formatting changes', refineLocally(extractedText));
     
     toast({ 
       title: 'Using basic formatting', 
-      description: 'Applied basic text improvements only.',
+      description: e instanceof Error ? e.message : 'Proposing basic text improvements only.',
       variant: 'destructive'
     });
   } finally {
+    correctionRef.current = null;
+    setAiProgress(null);
     setIsUsingAI(false);
   }
 };
 
-
+const cancelFormatting = () => {
+  correctionRef.current?.abort();
+  setEditableText(extractedText);
+};
 
   return (
     <Card className="h-full bg-text-panel">
@@ -233,6 +464,12 @@ const fixTextWithAI = async () => {
             Extracted Text
           </CardTitle>
           <div className="flex gap-2">
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onUndo} disabled={!canUndo || isUsingAI} aria-label="Undo" title="Undo (Ctrl+Z)">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onRedo} disabled={!canRedo || isUsingAI} aria-label="Redo" title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="h-4 w-4" />
+            </Button>
             <Badge variant="outline">{wordCount} words</Badge>
             <Badge variant="outline">{charCount} chars</Badge>
           </div>
@@ -257,50 +494,155 @@ const fixTextWithAI = async () => {
             <Download className="h-4 w-4 mr-1" />
             Download Text
           </Button>
+          <PdfExportDialog onExport={downloadAsPDF} disabled={!editableText} />
           <Button 
             variant="outline" 
             size="sm"
-            onClick={downloadAsPDF}
+            onClick={downloadDocx}
             disabled={!editableText}
           >
-            <FileDown className="h-4 w-4 mr-1" />
-            Download PDF
+            <FileType className="h-4 w-4 mr-1" />
+            Download DOCX
+          </Button>
+          <Button 
+            variant="outline" 
+            size="sm"
+            onClick={downloadSearchablePdf}
+            disabled={!file || !documentModel?.pages.some((page) => page.source === 'ocr') || isWritingTextLayer}
+            title="Original PDF with the corrected text of pages read by OCR as an invisible, searchable layer"
+          >
+            {isWritingTextLayer ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileSearch className="h-4 w-4 mr-1" />}
+            Searchable PDF
+          </Button>
+          <Button 
+            variant="outline" 
+            size="sm"
+            onClick={downloadMarkdown}
+            disabled={!editableText}
+          >
+            <FileCode className="h-4 w-4 mr-1" />
+            Download Markdown
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={applyRedactions}
+            disabled={!editableText || !documentModel?.pages.length || !redactions.length}
+            title="Black out the text under the areas marked in the viewer"
+          >
+            <EyeOff className="h-4 w-4 mr-1" />
+            Redact Text
+          </Button>
+          <Button
+            variant={isPiiScanOpen ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setIsPiiScanOpen(!isPiiScanOpen)}
+            disabled={!editableText}
+            title="Find emails, phone numbers, IBANs, ID numbers and other personal data"
+          >
+            <ShieldCheck className="h-4 w-4 mr-1" />
+            Scan PII
           </Button>
           <Button 
             variant="default"
             size="sm"
             onClick={fixTextWithAI}
-            disabled={!extractedText || isFixing || isUsingAI}
+            disabled={!extractedText || isFixing || isUsingAI || isLoading}
+            title={isLoading ? 'Available once all pages are extracted' : undefined}
           >
             <FileText className="h-4 w-4 mr-1" />
-            {isUsingAI ? "Formatting..." : "Format Text"}
+            {isUsingAI
+              ? aiProgress && aiProgress.total > 1 ? `Formatting ${Math.min(aiProgress.completed + 1, aiProgress.total)} of ${aiProgress.total}...` : "Formatting..."
+              : "Format Text"}
             {isUsingAI && <Loader2 className="ml-2 h-4 w-4 animate-spin" />}
           </Button>
+          {isUsingAI && (
+            <Button variant="ghost" size="sm" onClick={cancelFormatting} title="Stop formatting and keep the text as it was">
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+          {onSaveSnapshot && (
+            <SnapshotsPopover
+              snapshots={snapshots}
+              rawText={rawText}
+              onSave={(name) => onSaveSnapshot(name, editableText)}
+              onRestore={restoreSnapshot}
+              onCompare={compareWithSnapshot}
+              onRemove={(snapshotId) => onRemoveSnapshot?.(snapshotId)}
+              disabled={!editableText || isUsingAI}
+            />
+          )}
+          <AiSettingsDialog />
+          <CleanupSettingsDialog />
         </div>
+
+        {isPiiScanOpen && editableText && (
+          <PiiScanBar
+            findings={piiFindings}
+            categoryColors={piiCategoryColors}
+            enabledCategories={piiEnabledCategories}
+            onToggleCategory={togglePiiCategory}
+            onMask={() => replacePersonalData('mask')}
+            onPseudonymize={() => replacePersonalData('pseudonymize')}
+            onClose={() => setIsPiiScanOpen(false)}
+          />
+        )}
+
+        {formatReview && (
+          <FormatReviewDialog
+            title={formatReview.title}
+            original={formatReview.original}
+            proposed={formatReview.proposed}
+            proposedLabel={formatReview.snapshotName ?? undefined}
+            onApply={applyReview}
+            onCancel={() => setFormatReview(null)}
+          />
+        )}
       </CardHeader>
       
       <CardContent className="p-4">
-        {editableText ? (
-          <div className="bg-white dark:bg-gray-900 rounded-lg p-4 h-full min-h-[400px] max-h-[600px] overflow-auto border">
-            <textarea 
-              className="w-full h-full min-h-[400px] bg-transparent text-sm text-foreground font-mono leading-relaxed resize-none focus:outline-none focus:ring-0 border-none"
-              value={editableText}
-              onChange={(e) => {
-                setEditableText(e.target.value);
-                if (onUpdateExtractedText) {
-                  onUpdateExtractedText(e.target.value);
-                }
-              }}
-            />
-          </div>
-        ) : (
-          <div className="flex items-center justify-center h-[400px] text-muted-foreground">
-            <div className="text-center">
-              <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>Upload and view a PDF to extract text</p>
-            </div>
-          </div>
-        )}
+        <Tabs defaultValue="text">
+          <TabsList className="mb-3">
+            <TabsTrigger value="text">Text</TabsTrigger>
+            <TabsTrigger value="tables">Tables ({tables.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="tables">
+            <TablesView tables={tables} fileName={fileName} />
+          </TabsContent>
+
+          <TabsContent value="text">
+            {editableText ? (
+              <PageSectionsEditor
+                pages={sectionTexts}
+                editedPages={editedPages}
+                onChangePage={updatePageText}
+                pageHighlights={piiHighlights}
+                readOnly={isUsingAI || !(onUpdatePageText || onUpdateExtractedText)}
+                currentPage={currentPage}
+                onPageSelect={onPageSelect}
+                onKeyDown={handleEditorKeyDown}
+              />
+            ) : (
+              <div className="flex items-center justify-center h-[400px] text-muted-foreground">
+                <div className="text-center">
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="h-12 w-12 mx-auto mb-4 opacity-50 animate-spin" />
+                      <p>Extracting text...</p>
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      <p>Upload and view a PDF to extract text</p>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </CardContent>
     </Card>
   );
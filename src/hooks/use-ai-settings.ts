@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import type { OllamaProviderConfig, OpenAiProviderConfig } from '@/services/aiProviders';
+
+const STORAGE_KEY = 'pdf-insight:ai-settings';
+
+export type AiProviderId = 'rules' | 'openai' | 'ollama';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  openai: OpenAiProviderConfig;
+  ollama: OllamaProviderConfig;
+  /** Correct with the local rules when the provider fails */
+  fallbackToRules: boolean;
+}
+
+export const aiProviderOptions: { id: AiProviderId; label: string; description: string }[] = [
+  { id: 'rules', label: 'Offline rules', description: 'The cleanup rules, without a language model. Nothing leaves the browser.' },
+  { id: 'openai', label: 'OpenAI-compatible API', description: 'OpenAI or any server with a /v1/chat/completions endpoint, such as llama.cpp, LM Studio or vLLM.' },
+  { id: 'ollama', label: 'Ollama', description: 'A local Ollama server. Start it with OLLAMA_ORIGINS set to allow this page.' },
+];
+
+const defaultSettings: AiSettings = {
+  provider: 'rules',
+  openai: { baseUrl: 'https://api.openai.com/v1', apiKey: '', model: 'gpt-4o-mini' },
+  ollama: { baseUrl: 'http://localhost:11434', model: 'llama3.2' },
+  fallbackToRules: true,
+};
+
+const listeners: Array<(settings: AiSettings) => void> = [];
+
+const loadSettings = (): AiSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && aiProviderOptions.some((option) => option.id === parsed.provider)) {
+      return {
+        provider: parsed.provider,
+        openai: { ...defaultSettings.openai, ...parsed.openai },
+        ollama: { ...defaultSettings.ollama, ...parsed.ollama },
+        fallbackToRules: typeof parsed.fallbackToRules === 'boolean' ? parsed.fallbackToRules : defaultSettings.fallbackToRules,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to read AI settings:', error);
+  }
+  return defaultSettings;
+};
+
+let memorySettings: AiSettings = loadSettings();
+
+const updateSettings = (settings: AiSettings) => {
+  memorySettings = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save AI settings:', error);
+  }
+  listeners.forEach((listener) => listener(memorySettings));
+};
+
+/**
+ * Current AI settings, for code running outside React components
+ */
+export const getAiSettings = (): AiSettings => memorySettings;
+
+export const setAiProvider = (provider: AiProviderId) => {
+  updateSettings({ ...memorySettings, provider });
+};
+
+export const setOpenAiConfig = (config: Partial<OpenAiProviderConfig>) => {
+  updateSettings({ ...memorySettings, openai: { ...memorySettings.openai, ...config } });
+};
+
+export const setOllamaConfig = (config: Partial<OllamaProviderConfig>) => {
+  updateSettings({ ...memorySettings, ollama: { ...memorySettings.ollama, ...config } });
+};
+
+export const setFallbackToRules = (fallbackToRules: boolean) => {
+  updateSettings({ ...memorySettings, fallbackToRules });
+};
+
+export const resetAiSettings = () => {
+  updateSettings(defaultSettings);
+};
+
+export const useAiSettings = () => {
+  const [settings, setSettings] = useState<AiSettings>(memorySettings);
+
+  useEffect(() => {
+    listeners.push(setSettings);
+    return () => {
+      const index = listeners.indexOf(setSettings);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    ...settings,
+    setAiProvider,
+    setOpenAiConfig,
+    setOllamaConfig,
+    setFallbackToRules,
+    resetAiSettings,
+  };
+};
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { cleanupRules, type CleanupCategory } from '@/services/textCleanup';
+import { DEFAULT_PAGE_SEPARATOR } from '@/services/pageSeparators';
+
+const STORAGE_KEY = 'pdf-insight:cleanup-settings';
+
+interface CleanupSettings {
+  disabledRules: string[];
+  /** Template placed between pages of the extracted text, see pageSeparators.ts */
+  pageSeparator: string;
+}
+
+const defaultSettings: CleanupSettings = { disabledRules: [], pageSeparator: DEFAULT_PAGE_SEPARATOR };
+
+const listeners: Array<(settings: CleanupSettings) => void> = [];
+
+const loadSettings = (): CleanupSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && Array.isArray(parsed.disabledRules)) {
+      return {
+        disabledRules: parsed.disabledRules.filter((id: unknown) => typeof id === 'string'),
+        pageSeparator: typeof parsed.pageSeparator === 'string' ? parsed.pageSeparator : DEFAULT_PAGE_SEPARATOR,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to read cleanup settings:', error);
+  }
+  return defaultSettings;
+};
+
+let memorySettings: CleanupSettings = loadSettings();
+
+const updateSettings = (settings: CleanupSettings) => {
+  memorySettings = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save cleanup settings:', error);
+  }
+  listeners.forEach((listener) => listener(memorySettings));
+};
+
+/**
+ * Current cleanup settings, for code running outside React components
+ */
+export const getCleanupSettings = (): CleanupSettings => memorySettings;
+
+export const setRuleEnabled = (id: string, enabled: boolean) => {
+  const disabled = memorySettings.disabledRules.filter((ruleId) => ruleId !== id);
+  updateSettings({ ...memorySettings, disabledRules: enabled ? disabled : [...disabled, id] });
+};
+
+export const setCategoryEnabled = (category: CleanupCategory, enabled: boolean) => {
+  const ids = cleanupRules.filter((rule) => rule.category === category).map((rule) => rule.id);
+  const disabled = memorySettings.disabledRules.filter((ruleId) => !ids.includes(ruleId));
+  updateSettings({ ...memorySettings, disabledRules: enabled ? disabled : [...disabled, ...ids] });
+};
+
+export const setPageSeparator = (pageSeparator: string) => {
+  updateSettings({ ...memorySettings, pageSeparator });
+};
+
+export const resetCleanupSettings = () => {
+  updateSettings(defaultSettings);
+};
+
+export const useCleanupSettings = () => {
+  const [settings, setSettings] = useState<CleanupSettings>(memorySettings);
+
+  useEffect(() => {
+    listeners.push(setSettings);
+    return () => {
+      const index = listeners.indexOf(setSettings);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    ...settings,
+    isRuleEnabled: (id: string) => !settings.disabledRules.includes(id),
+    setRuleEnabled,
+    setCategoryEnabled,
+    setPageSeparator,
+    resetCleanupSettings,
+  };
+};
@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { dispatch, useWorkspace, type WorkspaceDocument } from '@/hooks/use-workspace';
+import { getCleanupSettings } from '@/hooks/use-cleanup-settings';
+import {
+  deleteDocument,
+  getStorageUsage,
+  isStorageAvailable,
+  loadDocuments,
+  loadFile,
+  loadSession,
+  requestPersistentStorage,
+  saveDocument,
+  saveFile,
+  saveSession,
+  type StorageUsage,
+  type StoredDocument,
+} from '@/services/documentStorage';
+import { emptyHistory } from '@/services/textHistory';
+import { changedPages, splitIntoPages } from '@/services/pageEdits';
+
+const SAVE_DELAY = 500;
+
+const toStoredDocument = (document: WorkspaceDocument): StoredDocument => ({
+  id: document.id,
+  name: document.file.name,
+  type: document.file.type,
+  size: document.file.size,
+  lastModified: document.file.lastModified,
+  addedAt: document.addedAt,
+  openedAt: document.openedAt,
+  numPages: document.numPages,
+  pageTexts: document.pageTexts,
+  editedPages: document.editedPages,
+  documentModel: document.documentModel,
+  columnLayout: document.columnLayout,
+  annotations: document.annotations,
+  redactions: document.redactions,
+  snapshots: document.snapshots,
+});
+
+// Older documents kept one edited text for the whole document, joined with the separator of the time
+const legacyEditedPages = ({ pageTexts, editedText }: StoredDocument): Record<number, string> =>
+  editedText == null
+    ? {}
+    : changedPages(pageTexts, splitIntoPages(pageTexts, getCleanupSettings().pageSeparator, editedText));
+
+const toWorkspaceDocument = (stored: StoredDocument, data: Blob): WorkspaceDocument => ({
+  id: stored.id,
+  file: new File([data], stored.name, { type: stored.type, lastModified: stored.lastModified }),
+  status: stored.numPages > 0 && stored.documentModel.pages.length >= stored.numPages ? 'done' : 'pending',
+  numPages: stored.numPages,
+  addedAt: stored.addedAt,
+  openedAt: stored.openedAt,
+  pageTexts: stored.pageTexts,
+  extractionId: null,
+  editedPages: stored.editedPages ?? legacyEditedPages(stored),
+  history: emptyHistory(),
+  snapshots: stored.snapshots ?? [],
+  documentModel: stored.documentModel,
+  columnLayout: stored.columnLayout ?? false,
+  annotations: stored.annotations ?? [],
+  redactions: stored.redactions ?? [],
+});
+
+/**
+ * Mirrors the workspace into IndexedDB and restores the last session on load
+ */
+export const useDocumentPersistence = () => {
+  const { documents, activeId } = useWorkspace();
+  const [isRestoring, setIsRestoring] = useState(isStorageAvailable);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // Last version of each document handed to storage, by id
+  const savedRef = useRef(new Map<string, WorkspaceDocument>());
+  const savedFilesRef = useRef(new Set<string>());
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const refreshUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch((error) => console.error('Failed to estimate storage usage:', error));
+  }, []);
+
+  const reportError = useCallback((error: unknown) => {
+    console.error('Failed to save document:', error);
+    toast({
+      title: 'Could not save document',
+      description: error instanceof DOMException && error.name === 'QuotaExceededError'
+        ? 'Browser storage is full. Delete some documents to keep saving changes.'
+        : 'Changes are kept for this session only.',
+      variant: 'destructive',
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isStorageAvailable()) return;
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        const [storedDocuments, session] = await Promise.all([loadDocuments(), loadSession()]);
+        const restored = await Promise.all(
+          storedDocuments
+            .sort((a, b) => b.openedAt - a.openedAt)
+            .map(async (stored) => {
+              const data = await loadFile(stored.id);
+              return data ? toWorkspaceDocument(stored, data) : null;
+            })
+        );
+        if (cancelled) return;
+
+        const available = restored.filter((document): document is WorkspaceDocument => document !== null);
+        available.forEach((document) => {
+          savedRef.current.set(document.id, document);
+          savedFilesRef.current.add(document.id);
+        });
+        dispatch({ type: 'RESTORE_DOCUMENTS', documents: available, activeId: session?.activeId ?? null });
+      } catch (error) {
+        console.error('Failed to restore documents:', error);
+      } finally {
+        if (!cancelled) {
+          setIsRestoring(false);
+          refreshUsage();
+        }
+      }
+    };
+
+    requestPersistentStorage().catch(() => false);
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshUsage]);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    const timers = timersRef.current;
+    const current = new Set(documents.map((document) => document.id));
+
+    // Documents removed from the workspace are deleted from storage
+    Array.from(savedRef.current.keys())
+      .filter((id) => !current.has(id))
+      .forEach((id) => {
+        clearTimeout(timers.get(id));
+        timers.delete(id);
+        savedRef.current.delete(id);
+        savedFilesRef.current.delete(id);
+        deleteDocument(id)
+          .then(refreshUsage)
+          .catch((error) => console.error('Failed to delete document:', error));
+      });
+
+    documents
+      .filter((document) => savedRef.current.get(document.id) !== document)
+      .forEach((document) => {
+        savedRef.current.set(document.id, document);
+        clearTimeout(timers.get(document.id));
+        timers.set(document.id, setTimeout(async () => {
+          timers.delete(document.id);
+          try {
+            if (!savedFilesRef.current.has(document.id)) {
+              await saveFile(document.id, document.file);
+              savedFilesRef.current.add(document.id);
+            }
+            // The document was deleted while its file was being written
+            if (!savedRef.current.has(document.id)) {
+              savedFilesRef.current.delete(document.id);
+              await deleteDocument(document.id);
+              return;
+            }
+            await saveDocument(toStoredDocument(document));
+            refreshUsage();
+          } catch (error) {
+            reportError(error);
+          }
+        }, SAVE_DELAY));
+      });
+  }, [documents, isRestoring, refreshUsage, reportError]);
+
+  useEffect(() => {
+    if (isRestoring) return;
+    saveSession({ activeId }).catch((error) => console.error('Failed to save session:', error));
+  }, [activeId, isRestoring]);
+
+  return { isRestoring, storageUsage };
+};
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'pdf-insight:editor-settings';
+
+interface EditorSettings {
+  /** Number the lines of each page */
+  lineNumbers: boolean;
+  /** Wrap long lines instead of scrolling sideways */
+  softWrap: boolean;
+}
+
+const defaultSettings: EditorSettings = { lineNumbers: false, softWrap: true };
+
+const listeners: Array<(settings: EditorSettings) => void> = [];
+
+const loadSettings = (): EditorSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed) {
+      return {
+        lineNumbers: typeof parsed.lineNumbers === 'boolean' ? parsed.lineNumbers : defaultSettings.lineNumbers,
+        softWrap: typeof parsed.softWrap === 'boolean' ? parsed.softWrap : defaultSettings.softWrap,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to read editor settings:', error);
+  }
+  return defaultSettings;
+};
+
+let memorySettings: EditorSettings = loadSettings();
+
+const updateSettings = (settings: EditorSettings) => {
+  memorySettings = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save editor settings:', error);
+  }
+  listeners.forEach((listener) => listener(memorySettings));
+};
+
+export const setLineNumbers = (lineNumbers: boolean) => {
+  updateSettings({ ...memorySettings, lineNumbers });
+};
+
+export const setSoftWrap = (softWrap: boolean) => {
+  updateSettings({ ...memorySettings, softWrap });
+};
+
+export const useEditorSettings = () => {
+  const [settings, setSettings] = useState<EditorSettings>(memorySettings);
+
+  useEffect(() => {
+    listeners.push(setSettings);
+    return () => {
+      const index = listeners.indexOf(setSettings);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    ...settings,
+    setLineNumbers,
+    setSoftWrap,
+  };
+};
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+import { getCleanupSettings } from '@/hooks/use-cleanup-settings';
+import { dispatch, type WorkspaceDocument } from '@/hooks/use-workspace';
+import { pageToText, type PageModel } from '@/services/documentModel';
+import { applyColumnLayout } from '@/services/readingOrder';
+import { cleanText } from '@/services/textCleanup';
+import { extractDocument, type ExtractionProgress, type OcrPageState } from '@/services/textExtraction';
+
+/**
+ * Cleaned text of a page, read column by column when `columnLayout` is set
+ */
+export const getPageText = (page: PageModel, columnLayout: boolean): string =>
+  cleanText(pageToText(columnLayout ? applyColumnLayout(page) : page), 'page', getCleanupSettings());
+
+/**
+ * Switch a document between line-by-line and column-by-column reading order.
+ * Edited pages keep their edits unless `discardEdits` is set.
+ */
+export const setColumnLayout = (document: WorkspaceDocument, enabled: boolean, discardEdits = false) => {
+  const pageTexts = Object.fromEntries(
+    document.documentModel.pages.map((page) => [page.pageNumber, getPageText(page, enabled)])
+  );
+  dispatch({ type: 'COLUMN_LAYOUT_CHANGED', id: document.id, enabled, pageTexts, discardEdits });
+};
+
+/**
+ * Extracts the text of the active document in the background and feeds each
+ * page into the workspace. Switching documents cancels the running extraction;
+ * documents that are already fully extracted are not read again.
+ */
+export const useTextExtraction = (document: WorkspaceDocument | null) => {
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const [ocrPages, setOcrPages] = useState<Record<number, OcrPageState>>({});
+  const documentId = document?.id;
+  const file = document?.file;
+  const needsExtraction = document ? document.status !== 'done' : false;
+  const needsExtractionRef = useRef(needsExtraction);
+  needsExtractionRef.current = needsExtraction;
+  const columnLayoutRef = useRef(false);
+  columnLayoutRef.current = document?.columnLayout ?? false;
+
+  useEffect(() => {
+    setProgress(null);
+    setOcrPages({});
+    if (!documentId || !file || !needsExtractionRef.current) return;
+
+    const extractionId = crypto.randomUUID();
+    dispatch({ type: 'EXTRACTION_STARTED', id: documentId, extractionId });
+    return extractDocument(file, {
+      onLoaded: (numPages) => dispatch({ type: 'DOCUMENT_LOADED', id: documentId, numPages }),
+      onPage: (page) => {
+        const text = getPageText(page, columnLayoutRef.current);
+        dispatch({ type: 'PAGE_EXTRACTED', id: documentId, extractionId, page, text });
+      },
+      onProgress: setProgress,
+      onOcrPage: (pageNumber, state) => setOcrPages(prev => ({ ...prev, [pageNumber]: state })),
+      onDone: () => setProgress(null),
+      onError: (error) => {
+        console.error('Text extraction failed:', error);
+        setProgress(null);
+        dispatch({ type: 'DOCUMENT_FAILED', id: documentId });
+      },
+    });
+  }, [documentId, file]);
+
+  return { progress, ocrPages };
+};
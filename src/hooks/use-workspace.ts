@@ -0,0 +1,336 @@
+import { useEffect, useState } from 'react';
+import { emptyDocumentModel, upsertPage, type DocumentModel, type PageModel } from '@/services/documentModel';
+import { joinPageTexts } from '@/services/pageSeparators';
+import { changedPages, splitIntoPages } from '@/services/pageEdits';
+import type { Annotation, AnnotationChanges } from '@/services/annotations';
+import type { Redaction } from '@/services/redaction';
+import {
+  addSnapshot,
+  emptyHistory,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  type TextEditKind,
+  type TextHistory,
+  type TextSnapshot,
+  type TextVersion,
+} from '@/services/textHistory';
+
+export type ExtractionStatus = 'pending' | 'extracting' | 'done' | 'error';
+
+export interface WorkspaceDocument {
+  id: string;
+  file: File;
+  status: ExtractionStatus;
+  numPages: number;
+  addedAt: number;
+  openedAt: number;
+  /** Cleaned text of each extracted page, keyed by page number */
+  pageTexts: Record<number, string>;
+  /** Extraction run whose pages are accepted; results of any other run are dropped */
+  extractionId: string | null;
+  /** Text of the pages changed in the text panel, keyed by page number; other pages show their extraction */
+  editedPages: Record<number, string>;
+  /** Undo and redo steps of editedPages, kept for this session only */
+  history: TextHistory;
+  /** Versions of the text saved under a name */
+  snapshots: TextSnapshot[];
+  documentModel: DocumentModel;
+  /** Read multi-column pages column by column instead of line by line across the page */
+  columnLayout: boolean;
+  /** Highlights, notes and drawings added in the viewer */
+  annotations: Annotation[];
+  /** Areas marked for removal in the viewer */
+  redactions: Redaction[];
+}
+
+interface WorkspaceState {
+  documents: WorkspaceDocument[];
+  activeId: string | null;
+}
+
+type Action =
+  | { type: 'ADD_DOCUMENTS'; files: File[] }
+  | { type: 'RESTORE_DOCUMENTS'; documents: WorkspaceDocument[]; activeId: string | null }
+  | { type: 'SELECT_DOCUMENT'; id: string }
+  | { type: 'REMOVE_DOCUMENT'; id: string }
+  | { type: 'DOCUMENT_LOADED'; id: string; numPages: number }
+  | { type: 'DOCUMENT_FAILED'; id: string }
+  | { type: 'EXTRACTION_STARTED'; id: string; extractionId: string }
+  | { type: 'PAGE_EXTRACTED'; id: string; extractionId: string; page: PageModel; text: string }
+  | { type: 'TEXT_EDITED'; id: string; editedPages: TextVersion; kind: TextEditKind }
+  | { type: 'TEXT_UNDONE'; id: string }
+  | { type: 'TEXT_REDONE'; id: string }
+  | { type: 'SNAPSHOT_SAVED'; id: string; snapshot: TextSnapshot }
+  | { type: 'SNAPSHOT_REMOVED'; id: string; snapshotId: string }
+  | { type: 'COLUMN_LAYOUT_CHANGED'; id: string; enabled: boolean; pageTexts: Record<number, string>; discardEdits: boolean }
+  | { type: 'ANNOTATION_ADDED'; id: string; annotation: Annotation }
+  | { type: 'ANNOTATION_UPDATED'; id: string; annotationId: string; changes: AnnotationChanges }
+  | { type: 'ANNOTATION_REMOVED'; id: string; annotationId: string }
+  | { type: 'REDACTIONS_ADDED'; id: string; redactions: Redaction[] }
+  | { type: 'REDACTION_REMOVED'; id: string; redactionId: string }
+  | { type: 'REDACTIONS_CLEARED'; id: string };
+
+const createDocument = (file: File): WorkspaceDocument => ({
+  id: crypto.randomUUID(),
+  file,
+  status: 'pending',
+  numPages: 0,
+  addedAt: Date.now(),
+  openedAt: Date.now(),
+  pageTexts: {},
+  extractionId: null,
+  editedPages: {},
+  history: emptyHistory(),
+  snapshots: [],
+  documentModel: emptyDocumentModel(),
+  columnLayout: false,
+  annotations: [],
+  redactions: [],
+});
+
+const isSameVersion = (a: TextVersion, b: TextVersion) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[Number(key)] === b[Number(key)]);
+};
+
+const updateDocument = (
+  state: WorkspaceState,
+  id: string,
+  update: (document: WorkspaceDocument) => WorkspaceDocument
+): WorkspaceState => ({
+  ...state,
+  documents: state.documents.map((document) => (document.id === id ? update(document) : document)),
+});
+
+export const reducer = (state: WorkspaceState, action: Action): WorkspaceState => {
+  switch (action.type) {
+    case 'ADD_DOCUMENTS': {
+      const added = action.files.map(createDocument);
+      return {
+        documents: [...state.documents, ...added],
+        activeId: added[0]?.id ?? state.activeId,
+      };
+    }
+
+    case 'RESTORE_DOCUMENTS': {
+      // Documents added while the restore was loading stay in place
+      const restored = action.documents.filter(
+        (document) => !state.documents.some((existing) => existing.id === document.id)
+      );
+      return {
+        documents: [...restored, ...state.documents],
+        activeId: state.activeId ?? action.activeId ?? restored[0]?.id ?? null,
+      };
+    }
+
+    case 'SELECT_DOCUMENT':
+      return updateDocument({ ...state, activeId: action.id }, action.id, (document) => ({
+        ...document,
+        openedAt: Date.now(),
+      }));
+
+    case 'REMOVE_DOCUMENT': {
+      const index = state.documents.findIndex((document) => document.id === action.id);
+      const documents = state.documents.filter((document) => document.id !== action.id);
+      const activeId = state.activeId === action.id
+        ? (documents[Math.min(index, documents.length - 1)]?.id ?? null)
+        : state.activeId;
+      return { documents, activeId };
+    }
+
+    case 'DOCUMENT_LOADED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        numPages: action.numPages,
+        status: document.documentModel.pages.length >= action.numPages ? 'done' : 'extracting',
+      }));
+
+    case 'DOCUMENT_FAILED':
+      return updateDocument(state, action.id, (document) => ({ ...document, status: 'error' }));
+
+    case 'EXTRACTION_STARTED':
+      // Start from scratch so no page of an earlier run survives
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        extractionId: action.extractionId,
+        status: 'extracting',
+        pageTexts: {},
+        documentModel: emptyDocumentModel(),
+      }));
+
+    case 'PAGE_EXTRACTED':
+      return updateDocument(state, action.id, (document) => {
+        const { pageNumber } = action.page;
+        if (document.extractionId !== action.extractionId || (document.numPages > 0 && pageNumber > document.numPages)) {
+          return document;
+        }
+        const documentModel = upsertPage(document.documentModel, action.page);
+        const pageTexts = { ...document.pageTexts, [action.page.pageNumber]: action.text };
+        const done = document.numPages > 0 && documentModel.pages.length >= document.numPages;
+        return { ...document, documentModel, pageTexts, status: done ? 'done' : 'extracting' };
+      });
+
+    case 'TEXT_EDITED':
+      return updateDocument(state, action.id, (document) =>
+        isSameVersion(action.editedPages, document.editedPages)
+          ? document
+          : {
+              ...document,
+              editedPages: action.editedPages,
+              history: recordEdit(document.history, document.editedPages, action.kind, Date.now()),
+            });
+
+    case 'TEXT_UNDONE':
+      return updateDocument(state, action.id, (document) => {
+        const step = undoEdit(document.history, document.editedPages);
+        return step ? { ...document, editedPages: step.version, history: step.history } : document;
+      });
+
+    case 'TEXT_REDONE':
+      return updateDocument(state, action.id, (document) => {
+        const step = redoEdit(document.history, document.editedPages);
+        return step ? { ...document, editedPages: step.version, history: step.history } : document;
+      });
+
+    case 'SNAPSHOT_SAVED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        snapshots: addSnapshot(document.snapshots, action.snapshot),
+      }));
+
+    case 'SNAPSHOT_REMOVED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        snapshots: document.snapshots.filter((snapshot) => snapshot.id !== action.snapshotId),
+      }));
+
+    case 'COLUMN_LAYOUT_CHANGED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        columnLayout: action.enabled,
+        pageTexts: action.pageTexts,
+        ...(action.discardEdits && Object.keys(document.editedPages).length
+          ? { editedPages: {}, history: recordEdit(document.history, document.editedPages, 'replace', Date.now()) }
+          : {}),
+      }));
+
+    case 'ANNOTATION_ADDED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        annotations: [...document.annotations, action.annotation],
+      }));
+
+    case 'ANNOTATION_UPDATED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        annotations: document.annotations.map((annotation) =>
+          annotation.id === action.annotationId ? { ...annotation, ...action.changes } : annotation),
+      }));
+
+    case 'ANNOTATION_REMOVED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        annotations: document.annotations.filter((annotation) => annotation.id !== action.annotationId),
+      }));
+
+    case 'REDACTIONS_ADDED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        redactions: [...document.redactions, ...action.redactions],
+      }));
+
+    case 'REDACTION_REMOVED':
+      return updateDocument(state, action.id, (document) => ({
+        ...document,
+        redactions: document.redactions.filter((redaction) => redaction.id !== action.redactionId),
+      }));
+
+    case 'REDACTIONS_CLEARED':
+      return updateDocument(state, action.id, (document) => ({ ...document, redactions: [] }));
+  }
+};
+
+const listeners: Array<(state: WorkspaceState) => void> = [];
+
+let memoryState: WorkspaceState = { documents: [], activeId: null };
+
+export const dispatch = (action: Action) => {
+  memoryState = reducer(memoryState, action);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+};
+
+/**
+ * Extracted text of all pages so far, joined with the given page separator template
+ */
+export const getExtractedText = (document: WorkspaceDocument, pageSeparator: string): string =>
+  joinPageTexts(document.pageTexts, pageSeparator);
+
+/**
+ * Text of each page as shown: the user's edits where present, else the extraction
+ */
+export const getPageTexts = (document: WorkspaceDocument): Record<number, string> => ({
+  ...document.pageTexts,
+  ...document.editedPages,
+});
+
+/**
+ * Text shown in the text panel, which copying and every export work from
+ */
+export const getDocumentText = (document: WorkspaceDocument, pageSeparator: string): string =>
+  joinPageTexts(getPageTexts(document), pageSeparator);
+
+export const isDocumentEdited = (document: WorkspaceDocument): boolean =>
+  Object.keys(document.editedPages).length > 0;
+
+/**
+ * Record a change of the document text made in the text panel, split back
+ * into the pages it was joined from
+ */
+export const editDocumentText = (id: string, text: string, pageSeparator: string, kind: TextEditKind) => {
+  const document = memoryState.documents.find((item) => item.id === id);
+  if (!document) return;
+  const pages = splitIntoPages(getPageTexts(document), pageSeparator, text);
+  dispatch({ type: 'TEXT_EDITED', id, editedPages: changedPages(document.pageTexts, pages), kind });
+};
+
+/**
+ * Record a change of one page's text made in its section of the text panel
+ */
+export const editPageText = (id: string, pageNumber: number, text: string, kind: TextEditKind) => {
+  const document = memoryState.documents.find((item) => item.id === id);
+  if (!document) return;
+  const pages = { ...getPageTexts(document), [pageNumber]: text };
+  dispatch({ type: 'TEXT_EDITED', id, editedPages: changedPages(document.pageTexts, pages), kind });
+};
+
+/**
+ * Drop all edits, so every page shows its extraction again
+ */
+export const restoreExtractedText = (id: string) => {
+  dispatch({ type: 'TEXT_EDITED', id, editedPages: {}, kind: 'replace' });
+};
+
+export const useWorkspace = () => {
+  const [state, setState] = useState<WorkspaceState>(memoryState);
+
+  useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    ...state,
+    activeDocument: state.documents.find((document) => document.id === state.activeId) ?? null,
+    addDocuments: (files: File[]) => dispatch({ type: 'ADD_DOCUMENTS', files }),
+    selectDocument: (id: string) => dispatch({ type: 'SELECT_DOCUMENT', id }),
+    removeDocument: (id: string) => dispatch({ type: 'REMOVE_DOCUMENT', id }),
+  };
+};
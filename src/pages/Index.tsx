@@ -1,92 +1,253 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { PDFUpload } from '@/components/PDFUpload';
 import { PDFViewer } from '@/components/PDFViewer';
+import { PageOrganizer } from '@/components/PageOrganizer';
 import { TextPanel } from '@/components/TextPanel';
+import { DocumentLibrary } from '@/components/DocumentLibrary';
+import { ReplaceEditsDialog } from '@/components/ReplaceEditsDialog';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { FileText } from 'lucide-react';
+import {
+  dispatch,
+  editDocumentText,
+  editPageText,
+  getDocumentText,
+  getExtractedText,
+  getPageTexts,
+  isDocumentEdited,
+  restoreExtractedText,
+  useWorkspace,
+} from '@/hooks/use-workspace';
+import { useDocumentPersistence } from '@/hooks/use-document-persistence';
+import { useCleanupSettings } from '@/hooks/use-cleanup-settings';
+import { setColumnLayout, useTextExtraction } from '@/hooks/use-text-extraction';
+import type { Annotation, AnnotationChanges } from '@/services/annotations';
+import type { Redaction } from '@/services/redaction';
+import type { TextEditKind } from '@/services/textHistory';
 
 const Index = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [extractedText, setExtractedText] = useState<string>('');
+  const { documents, activeId, activeDocument, addDocuments, selectDocument, removeDocument } = useWorkspace();
+  const { isRestoring, storageUsage } = useDocumentPersistence();
+  const { progress: extractionProgress, ocrPages } = useTextExtraction(activeDocument);
+  const { pageSeparator } = useCleanupSettings();
+  const [isOrganizing, setIsOrganizing] = useState(false);
+  const [pendingColumnLayout, setPendingColumnLayout] = useState<boolean | null>(null);
+  // The viewer and the text panel's page sections follow each other
+  const [viewerPage, setViewerPage] = useState(1);
+  const [pageRequest, setPageRequest] = useState<{ documentId: string; pageNumber: number } | null>(null);
+  const selectedFile = activeDocument?.file ?? null;
+  const activeDocumentId = activeDocument?.id;
 
-  const handleFileSelect = (file: File) => {
-    setSelectedFile(file);
-    setExtractedText(''); // Reset text when new file is selected
+  // Callbacks are bound to the document they were created for, so results of a
+  // viewer that is still finishing after a document switch land in the right place
+  const handleDocumentError = useCallback(() => {
+    dispatch({ type: 'DOCUMENT_FAILED', id: activeDocumentId });
+  }, [activeDocumentId]);
+
+  const handleUpdateExtractedText = useCallback((text: string, kind: TextEditKind = 'replace') => {
+    editDocumentText(activeDocumentId, text, pageSeparator, kind);
+  }, [activeDocumentId, pageSeparator]);
+
+  const handleUpdatePageText = useCallback((pageNumber: number, text: string, kind: TextEditKind) => {
+    editPageText(activeDocumentId, pageNumber, text, kind);
+  }, [activeDocumentId]);
+
+  const handlePageSelect = useCallback((pageNumber: number) => {
+    setPageRequest({ documentId: activeDocumentId, pageNumber });
+  }, [activeDocumentId]);
+
+  const handleRestoreRawText = useCallback(() => {
+    restoreExtractedText(activeDocumentId);
+  }, [activeDocumentId]);
+
+  const handleUndo = useCallback(() => {
+    dispatch({ type: 'TEXT_UNDONE', id: activeDocumentId });
+  }, [activeDocumentId]);
+
+  const handleRedo = useCallback(() => {
+    dispatch({ type: 'TEXT_REDONE', id: activeDocumentId });
+  }, [activeDocumentId]);
+
+  const handleSaveSnapshot = useCallback((name: string, text: string) => {
+    dispatch({
+      type: 'SNAPSHOT_SAVED',
+      id: activeDocumentId,
+      snapshot: { id: crypto.randomUUID(), name, text, createdAt: Date.now() },
+    });
+  }, [activeDocumentId]);
+
+  const handleRemoveSnapshot = useCallback((snapshotId: string) => {
+    dispatch({ type: 'SNAPSHOT_REMOVED', id: activeDocumentId, snapshotId });
+  }, [activeDocumentId]);
+
+  const handleAnnotationAdd = useCallback((annotation: Annotation) => {
+    dispatch({ type: 'ANNOTATION_ADDED', id: activeDocumentId, annotation });
+  }, [activeDocumentId]);
+
+  const handleAnnotationUpdate = useCallback((annotationId: string, changes: AnnotationChanges) => {
+    dispatch({ type: 'ANNOTATION_UPDATED', id: activeDocumentId, annotationId, changes });
+  }, [activeDocumentId]);
+
+  const handleAnnotationRemove = useCallback((annotationId: string) => {
+    dispatch({ type: 'ANNOTATION_REMOVED', id: activeDocumentId, annotationId });
+  }, [activeDocumentId]);
+
+  const handleRedactionsAdd = useCallback((redactions: Redaction[]) => {
+    dispatch({ type: 'REDACTIONS_ADDED', id: activeDocumentId, redactions });
+  }, [activeDocumentId]);
+
+  const handleRedactionRemove = useCallback((redactionId: string) => {
+    dispatch({ type: 'REDACTION_REMOVED', id: activeDocumentId, redactionId });
+  }, [activeDocumentId]);
+
+  const handleRedactionsClear = useCallback(() => {
+    dispatch({ type: 'REDACTIONS_CLEARED', id: activeDocumentId });
+  }, [activeDocumentId]);
+
+  // A new reading order extracts the text again, so edited pages need a decision first
+  const handleColumnLayoutChange = (enabled: boolean) => {
+    if (!activeDocument) return;
+    if (isDocumentEdited(activeDocument)) setPendingColumnLayout(enabled);
+    else setColumnLayout(activeDocument, enabled);
   };
 
-  const handleTextExtracted = (text: string, pageNumber?: number) => {
-    if (pageNumber === 1) {
-      // For the first page, start fresh
-      setExtractedText(text);
-    } else if (pageNumber && pageNumber > 1) {
-      // For subsequent pages, append to existing text
-      setExtractedText(prev => prev + `\n\n--- Page ${pageNumber} ---\n\n` + text);
-    } else {
-      // Fallback for when pageNumber is not provided
-      setExtractedText(text);
-    }
+  const applyPendingColumnLayout = (discardEdits: boolean) => {
+    if (activeDocument && pendingColumnLayout !== null) setColumnLayout(activeDocument, pendingColumnLayout, discardEdits);
+    setPendingColumnLayout(null);
   };
 
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-6">
-          <div className="flex items-center gap-3">
-            <div className="flex items-center justify-center w-10 h-10 bg-primary rounded-lg">
-              <FileText className="h-6 w-6 text-primary-foreground" />
+    <SidebarProvider>
+      <DocumentLibrary
+        documents={documents}
+        activeId={activeId}
+        onSelect={selectDocument}
+        onRemove={removeDocument}
+        isRestoring={isRestoring}
+        storageUsage={storageUsage}
+      />
+      <SidebarInset>
+        <div className="min-h-screen bg-background">
+          {/* Header */}
+          <header className="border-b bg-card">
+            <div className="container mx-auto px-4 py-6">
+              <div className="flex items-center gap-3">
+                <SidebarTrigger />
+                <div className="flex items-center justify-center w-10 h-10 bg-primary rounded-lg">
+                  <FileText className="h-6 w-6 text-primary-foreground" />
+                </div>
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">PDF Insight</h1>
+                  <p className="text-sm text-muted-foreground">Upload, view, and extract text from PDF documents</p>
+                </div>
+              </div>
             </div>
-            <div>
-              <h1 className="text-2xl font-bold text-foreground">PDF Insight</h1>
-              <p className="text-sm text-muted-foreground">Upload, view, and extract text from PDF documents</p>
+          </header>
+
+          {/* Main Content */}
+          <main className="container mx-auto px-4 py-8">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-full">
+              {/* Left Column */}
+              <div className="space-y-6">
+                {/* Upload Section */}
+                <PDFUpload
+                  onFilesSelect={addDocuments}
+                  selectedFile={selectedFile}
+                  documentCount={documents.length}
+                />
+
+                {/* Page Organizer */}
+                {activeDocument && isOrganizing && (
+                  <PageOrganizer
+                    key={activeDocument.id}
+                    document={activeDocument}
+                    documents={documents}
+                    onOpenFiles={addDocuments}
+                    onClose={() => setIsOrganizing(false)}
+                  />
+                )}
+
+                {/* PDF Viewer */}
+                {activeDocument && !isOrganizing && (
+                  <PDFViewer
+                    key={activeDocument.id}
+                    file={activeDocument.file}
+                    onDocumentError={handleDocumentError}
+                    documentModel={activeDocument.documentModel}
+                    extractionProgress={extractionProgress}
+                    ocrPages={ocrPages}
+                    columnLayout={activeDocument.columnLayout}
+                    onColumnLayoutChange={handleColumnLayoutChange}
+                    onOrganizePages={() => setIsOrganizing(true)}
+                    annotations={activeDocument.annotations}
+                    onAnnotationAdd={handleAnnotationAdd}
+                    onAnnotationUpdate={handleAnnotationUpdate}
+                    onAnnotationRemove={handleAnnotationRemove}
+                    redactions={activeDocument.redactions}
+                    onRedactionsAdd={handleRedactionsAdd}
+                    onRedactionRemove={handleRedactionRemove}
+                    onRedactionsClear={handleRedactionsClear}
+                    onCurrentPageChange={setViewerPage}
+                    pageRequest={pageRequest?.documentId === activeDocument.id ? pageRequest : null}
+                  />
+                )}
+              </div>
+
+              {/* Right Column - Text Panel */}
+              <div className="lg:sticky lg:top-8 lg:h-fit">
+                <TextPanel
+                  extractedText={activeDocument ? getDocumentText(activeDocument, pageSeparator) : ''}
+                  fileName={selectedFile?.name}
+                  onUpdateExtractedText={activeDocument ? handleUpdateExtractedText : undefined}
+                  pageTexts={activeDocument ? getPageTexts(activeDocument) : undefined}
+                  onUpdatePageText={activeDocument ? handleUpdatePageText : undefined}
+                  currentPage={activeDocument && !isOrganizing ? viewerPage : undefined}
+                  onPageSelect={activeDocument && !isOrganizing ? handlePageSelect : undefined}
+                  documentModel={activeDocument?.documentModel}
+                  columnLayout={activeDocument?.columnLayout}
+                  isLoading={activeDocument?.status === 'pending' || activeDocument?.status === 'extracting'}
+                  editedPages={activeDocument?.editedPages}
+                  file={activeDocument?.file}
+                  redactions={activeDocument?.redactions}
+                  rawText={activeDocument ? getExtractedText(activeDocument, pageSeparator) : ''}
+                  canUndo={!!activeDocument?.history.past.length}
+                  canRedo={!!activeDocument?.history.future.length}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  snapshots={activeDocument?.snapshots}
+                  onSaveSnapshot={activeDocument ? handleSaveSnapshot : undefined}
+                  onRemoveSnapshot={handleRemoveSnapshot}
+                  onRestoreRawText={handleRestoreRawText}
+                />
+              </div>
             </div>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="container mx-auto px-4 py-8">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-full">
-          {/* Left Column */}
-          <div className="space-y-6">
-            {/* Upload Section */}
-            <PDFUpload 
-              onFileSelect={handleFileSelect}
-              selectedFile={selectedFile}
-            />
-            
-            {/* PDF Viewer */}
-            {selectedFile && (
-              <PDFViewer 
-                file={selectedFile}
-                onTextExtracted={handleTextExtracted}
-              />
+
+            {/* Empty State */}
+            {!selectedFile && !isRestoring && (
+              <div className="mt-12 text-center">
+                <div className="max-w-md mx-auto">
+                  <FileText className="h-16 w-16 mx-auto text-muted-foreground mb-4 opacity-50" />
+                  <h3 className="text-lg font-medium text-foreground mb-2">Get started with PDF processing</h3>
+                  <p className="text-muted-foreground">
+                    Upload PDF files above to view them and extract text content. Perfect for document analysis,
+                    content extraction, and text processing workflows.
+                  </p>
+                </div>
+              </div>
             )}
-          </div>
+          </main>
 
-          {/* Right Column - Text Panel */}
-          <div className="lg:sticky lg:top-8 lg:h-fit">
-            <TextPanel 
-              extractedText={extractedText}
-              fileName={selectedFile?.name}
+          {activeDocument && pendingColumnLayout !== null && (
+            <ReplaceEditsDialog
+              editedPages={Object.keys(activeDocument.editedPages).map(Number)}
+              onKeepEdits={() => applyPendingColumnLayout(false)}
+              onDiscardEdits={() => applyPendingColumnLayout(true)}
+              onCancel={() => setPendingColumnLayout(null)}
             />
-          </div>
+          )}
         </div>
-
-        {/* Empty State */}
-        {!selectedFile && (
-          <div className="mt-12 text-center">
-            <div className="max-w-md mx-auto">
-              <FileText className="h-16 w-16 mx-auto text-muted-foreground mb-4 opacity-50" />
-              <h3 className="text-lg font-medium text-foreground mb-2">Get started with PDF processing</h3>
-              <p className="text-muted-foreground">
-                Upload a PDF file above to view it and extract text content. Perfect for document analysis, 
-                content extraction, and text processing workflows.
-              </p>
-            </div>
-          </div>
-        )}
-      </main>
-    </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
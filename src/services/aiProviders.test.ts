@@ -0,0 +1,106 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createOllamaProvider, createOpenAiProvider, type CorrectionProvider } from '@/services/aiProviders';
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let lastRequest: { url: string; body: { model: string; stream: boolean } };
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => { body += chunk; });
+    request.on('end', () => {
+      lastRequest = { url: request.url, body: JSON.parse(body) };
+      handler(request, response);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// Stream the lines, then keep the response open when `hold` is set
+const streamLines = (lines: string[], { contentType, hold = false }: { contentType: string; hold?: boolean }): Handler =>
+  (_request, response) => {
+    response.writeHead(200, { 'Content-Type': contentType });
+    lines.forEach((line) => response.write(`${line}\n`));
+    if (!hold) response.end();
+  };
+
+const failWith = (status: number, body: string): Handler => (_request, response) => {
+  response.writeHead(status, { 'Content-Type': 'text/plain' });
+  response.end(body);
+};
+
+const sse = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n`;
+const ndjson = (content: string, done = false) => JSON.stringify({ message: { content }, done });
+
+// Cancels the request as soon as the first piece of text arrives
+const correctUntilFirstDelta = (provider: CorrectionProvider) => {
+  const controller = new AbortController();
+  return provider.correct('Helo', { signal: controller.signal, onDelta: () => controller.abort() });
+};
+
+describe('createOpenAiProvider', () => {
+  const provider = () => createOpenAiProvider({ baseUrl: `${baseUrl}/v1/`, apiKey: '', model: 'test-model' });
+
+  it('streams the corrected text from server-sent events', async () => {
+    handler = streamLines([sse('Hel'), sse('lo'), 'data: [DONE]'], { contentType: 'text/event-stream' });
+    const deltas: string[] = [];
+    const result = await provider().correct('Helo', { onDelta: (delta) => deltas.push(delta) });
+
+    expect(result).toBe('Hello');
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(lastRequest.url).toBe('/v1/chat/completions');
+    expect(lastRequest.body).toMatchObject({ model: 'test-model', stream: true });
+  });
+
+  it('reports the status and body of a failed request', async () => {
+    handler = failWith(401, 'Invalid API key');
+    await expect(provider().correct('Helo')).rejects.toThrow('OpenAI-compatible API returned 401: Invalid API key');
+  });
+
+  it('stops reading when the request is cancelled', async () => {
+    handler = streamLines([sse('Hel')], { contentType: 'text/event-stream', hold: true });
+    await expect(correctUntilFirstDelta(provider())).rejects.toThrow(/abort/i);
+  });
+});
+
+describe('createOllamaProvider', () => {
+  const provider = () => createOllamaProvider({ baseUrl, model: 'test-model' });
+
+  it('streams the corrected text from JSON lines', async () => {
+    handler = streamLines([ndjson('Hel'), ndjson('lo'), ndjson('', true)], { contentType: 'application/x-ndjson' });
+    const deltas: string[] = [];
+    const result = await provider().correct('Helo', { onDelta: (delta) => deltas.push(delta) });
+
+    expect(result).toBe('Hello');
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(lastRequest.url).toBe('/api/chat');
+    expect(lastRequest.body).toMatchObject({ model: 'test-model', stream: true });
+  });
+
+  it('reports the status and body of a failed request', async () => {
+    handler = failWith(404, 'model "test-model" not found');
+    await expect(provider().correct('Helo')).rejects.toThrow('Ollama returned 404: model "test-model" not found');
+  });
+
+  it('reports an error sent in the stream', async () => {
+    handler = streamLines([JSON.stringify({ error: 'out of memory' })], { contentType: 'application/x-ndjson' });
+    await expect(provider().correct('Helo')).rejects.toThrow('Ollama: out of memory');
+  });
+
+  it('stops reading when the request is cancelled', async () => {
+    handler = streamLines([ndjson('Hel')], { contentType: 'application/x-ndjson', hold: true });
+    await expect(correctUntilFirstDelta(provider())).rejects.toThrow(/abort/i);
+  });
+});
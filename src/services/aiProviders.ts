@@ -0,0 +1,136 @@
+// Language model providers for text correction: OpenAI-compatible chat APIs and Ollama
+
+export interface CorrectionRequest {
+  signal?: AbortSignal;
+  /** Called with each piece of the corrected text as it streams in */
+  onDelta?: (delta: string) => void;
+}
+
+export interface CorrectionProvider {
+  /** Shown to the user, e.g. in messages about failures */
+  label: string;
+  /** Corrected version of one chunk of text */
+  correct: (text: string, request?: CorrectionRequest) => Promise<string>;
+}
+
+export interface OpenAiProviderConfig {
+  /** Base URL of the API, up to and including /v1 */
+  baseUrl: string;
+  /** Sent as a bearer token; local servers usually need none */
+  apiKey: string;
+  model: string;
+}
+
+export interface OllamaProviderConfig {
+  baseUrl: string;
+  model: string;
+}
+
+const SYSTEM_PROMPT = [
+  'You correct text that was extracted from PDF documents, often by OCR.',
+  'Fix recognition errors, broken words and hyphenation, wrong line breaks and spacing.',
+  'Keep the wording, language, order and paragraph structure. Do not translate, summarize or comment.',
+  'Reply with the corrected text only, without Markdown formatting.',
+].join(' ');
+
+// Error bodies are cut to this length in messages
+const MAX_ERROR_LENGTH = 200;
+
+const chatMessages = (text: string) => [
+  { role: 'system', content: SYSTEM_PROMPT },
+  { role: 'user', content: text },
+];
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+const checkResponse = async (response: Response, label: string) => {
+  if (response.ok) return;
+  const body = await response.text().catch(() => '');
+  throw new Error(`${label} returned ${response.status}${body ? `: ${body.slice(0, MAX_ERROR_LENGTH)}` : ''}`);
+};
+
+/**
+ * Lines of a streamed response body as they arrive
+ */
+async function* readLines(response: Response): AsyncGenerator<string> {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop();
+    for (const line of lines) yield line;
+    if (done) return;
+  }
+}
+
+/**
+ * Chat completions with server-sent events, as served by OpenAI, llama.cpp,
+ * LM Studio, vLLM and Ollama's /v1 endpoint
+ */
+export const createOpenAiProvider = ({ baseUrl, apiKey, model }: OpenAiProviderConfig): CorrectionProvider => {
+  const label = 'OpenAI-compatible API';
+  return {
+    label,
+    correct: async (text, { signal, onDelta } = {}) => {
+      const response = await fetch(`${trimSlash(baseUrl)}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, messages: chatMessages(text), temperature: 0, stream: true }),
+        signal,
+      });
+      await checkResponse(response, label);
+
+      let result = '';
+      for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') break;
+        const delta: string = JSON.parse(data).choices?.[0]?.delta?.content ?? '';
+        if (delta) {
+          result += delta;
+          onDelta?.(delta);
+        }
+      }
+      return result;
+    },
+  };
+};
+
+/**
+ * Ollama's native chat API, which streams one JSON object per line
+ */
+export const createOllamaProvider = ({ baseUrl, model }: OllamaProviderConfig): CorrectionProvider => {
+  const label = 'Ollama';
+  return {
+    label,
+    correct: async (text, { signal, onDelta } = {}) => {
+      const response = await fetch(`${trimSlash(baseUrl)}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, messages: chatMessages(text), stream: true, options: { temperature: 0 } }),
+        signal,
+      });
+      await checkResponse(response, label);
+
+      let result = '';
+      for await (const line of readLines(response)) {
+        if (!line.trim()) continue;
+        const message = JSON.parse(line);
+        if (message.error) throw new Error(`${label}: ${message.error}`);
+        const delta: string = message.message?.content ?? '';
+        if (delta) {
+          result += delta;
+          onDelta?.(delta);
+        }
+        if (message.done) break;
+      }
+      return result;
+    },
+  };
+};
@@ -0,0 +1,248 @@
+// Highlights, sticky notes and freehand ink on pages, and their export as PDF annotations
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFString,
+  closePath,
+  fill,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  setFillingRgbColor,
+  setGraphicsState,
+  setLineCap,
+  setLineJoin,
+  setLineWidth,
+  setStrokingRgbColor,
+  stroke,
+  LineCapStyle,
+  LineJoinStyle,
+  type PDFOperator,
+  type PDFPage,
+} from 'pdf-lib';
+import type { BoundingBox } from '@/services/documentModel';
+import type { Point } from '@/services/pageGeometry';
+import { pageTransform, toPdfPoint, type Matrix } from '@/services/pdfCoordinates';
+
+export type AnnotationColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export const annotationColors: { id: AnnotationColor; label: string; hex: string }[] = [
+  { id: 'yellow', label: 'Yellow', hex: '#fde047' },
+  { id: 'green', label: 'Green', hex: '#86efac' },
+  { id: 'blue', label: 'Blue', hex: '#93c5fd' },
+  { id: 'pink', label: 'Pink', hex: '#f9a8d4' },
+];
+
+// Positions are in model coordinates: unrotated viewport units at scale 1
+interface AnnotationBase {
+  id: string;
+  pageNumber: number;
+  color: AnnotationColor;
+  comment: string;
+  createdAt: number;
+}
+
+export interface HighlightAnnotation extends AnnotationBase {
+  type: 'highlight';
+  /** One box per highlighted line */
+  rects: BoundingBox[];
+  /** Text that was selected */
+  text: string;
+}
+
+export interface NoteAnnotation extends AnnotationBase {
+  type: 'note';
+  /** Top left corner of the note icon */
+  position: Point;
+}
+
+export interface InkAnnotation extends AnnotationBase {
+  type: 'ink';
+  /** One stroke */
+  points: Point[];
+  width: number;
+}
+
+export type Annotation = HighlightAnnotation | NoteAnnotation | InkAnnotation;
+
+/** Fields that can be changed after an annotation is created */
+export type AnnotationChanges = Partial<Pick<AnnotationBase, 'color' | 'comment'>>;
+
+export const INK_WIDTH = 2;
+export const NOTE_SIZE = 20;
+
+const HIGHLIGHT_OPACITY = 0.4;
+// Print flag, plus NoZoom and NoRotate for note icons
+const PRINT_FLAG = 4;
+const NOTE_FLAGS = PRINT_FLAG | 8 | 16;
+
+export const annotationLabel = (annotation: Annotation): string => {
+  switch (annotation.type) {
+    case 'highlight':
+      return annotation.text || 'Highlight';
+    case 'note':
+      return annotation.comment || 'Note';
+    case 'ink':
+      return 'Drawing';
+  }
+};
+
+/**
+ * Merge the rectangles of a text selection into one box per line. Browsers
+ * return a rectangle per text layer span, often overlapping.
+ */
+export const mergeLineRects = (rects: BoundingBox[]): BoundingBox[] => {
+  const merged: BoundingBox[] = [];
+  [...rects]
+    .filter((rect) => rect.width > 0.5 && rect.height > 0.5)
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .forEach((rect) => {
+      const line = merged.find((box) => {
+        const overlap = Math.min(box.y + box.height, rect.y + rect.height) - Math.max(box.y, rect.y);
+        return overlap > Math.min(box.height, rect.height) / 2;
+      });
+      if (!line) {
+        merged.push({ ...rect });
+        return;
+      }
+      const right = Math.max(line.x + line.width, rect.x + rect.width);
+      const bottom = Math.max(line.y + line.height, rect.y + rect.height);
+      line.x = Math.min(line.x, rect.x);
+      line.y = Math.min(line.y, rect.y);
+      line.width = right - line.x;
+      line.height = bottom - line.y;
+    });
+  return merged;
+};
+
+const toRgb = (color: AnnotationColor): [number, number, number] => {
+  const hex = annotationColors.find((entry) => entry.id === color).hex;
+  return [1, 3, 5].map((index) => parseInt(hex.slice(index, index + 2), 16) / 255) as [number, number, number];
+};
+
+const boundsOf = (points: Point[], padding = 0): [number, number, number, number] => [
+  Math.min(...points.map((point) => point.x)) - padding,
+  Math.min(...points.map((point) => point.y)) - padding,
+  Math.max(...points.map((point) => point.x)) + padding,
+  Math.max(...points.map((point) => point.y)) + padding,
+];
+
+// Corners of a box in PDF space, in the order QuadPoints expects:
+// top left, top right, bottom left, bottom right as read
+const boxCorners = (transform: Matrix, { x, y, width, height }: BoundingBox): Point[] => [
+  toPdfPoint(transform, x, y),
+  toPdfPoint(transform, x + width, y),
+  toPdfPoint(transform, x, y + height),
+  toPdfPoint(transform, x + width, y + height),
+];
+
+const textEntries = (annotation: Annotation) => ({
+  Contents: PDFHexString.fromText(annotation.comment),
+  NM: PDFHexString.fromText(annotation.id),
+  M: PDFString.fromDate(new Date(annotation.createdAt)),
+  C: toRgb(annotation.color),
+});
+
+/**
+ * Appearance stream, so viewers that do not draw annotations themselves
+ * still show them
+ */
+const appearance = (pdf: PDFDocument, bounds: number[], operators: PDFOperator[], opacity = 1) => {
+  const resources = opacity < 1
+    ? { ExtGState: { GS0: { Type: 'ExtGState', ca: opacity, CA: opacity, BM: 'Multiply' } } }
+    : {};
+  const stream = pdf.context.formXObject(
+    [pushGraphicsState(), ...(opacity < 1 ? [setGraphicsState('GS0')] : []), ...operators, popGraphicsState()],
+    { BBox: bounds, Resources: resources }
+  );
+  return pdf.context.obj({ N: pdf.context.register(stream) });
+};
+
+const createAnnotation = (pdf: PDFDocument, page: PDFPage, annotation: Annotation) => {
+  const transform = pageTransform(page);
+  const [red, green, blue] = toRgb(annotation.color);
+
+  switch (annotation.type) {
+    case 'highlight': {
+      const quads = annotation.rects.map((rect) => boxCorners(transform, rect));
+      const bounds = boundsOf(quads.flat());
+      return pdf.context.obj({
+        Type: 'Annot',
+        Subtype: 'Highlight',
+        Rect: bounds,
+        QuadPoints: quads.flat().flatMap((point) => [point.x, point.y]),
+        CA: HIGHLIGHT_OPACITY,
+        F: PRINT_FLAG,
+        AP: appearance(pdf, bounds, [
+          setFillingRgbColor(red, green, blue),
+          ...quads.flatMap(([topLeft, topRight, bottomLeft, bottomRight]) => [
+            moveTo(topLeft.x, topLeft.y),
+            lineTo(topRight.x, topRight.y),
+            lineTo(bottomRight.x, bottomRight.y),
+            lineTo(bottomLeft.x, bottomLeft.y),
+            closePath(),
+          ]),
+          fill(),
+        ], HIGHLIGHT_OPACITY),
+        ...textEntries(annotation),
+      });
+    }
+
+    case 'note': {
+      const anchor = toPdfPoint(transform, annotation.position.x, annotation.position.y);
+      return pdf.context.obj({
+        Type: 'Annot',
+        Subtype: 'Text',
+        Rect: [anchor.x, anchor.y - NOTE_SIZE, anchor.x + NOTE_SIZE, anchor.y],
+        Name: 'Comment',
+        Open: false,
+        F: NOTE_FLAGS,
+        ...textEntries(annotation),
+      });
+    }
+
+    case 'ink': {
+      const points = annotation.points.map((point) => toPdfPoint(transform, point.x, point.y));
+      const bounds = boundsOf(points, annotation.width);
+      return pdf.context.obj({
+        Type: 'Annot',
+        Subtype: 'Ink',
+        Rect: bounds,
+        InkList: [points.flatMap((point) => [point.x, point.y])],
+        BS: { W: annotation.width, S: 'S' },
+        F: PRINT_FLAG,
+        AP: appearance(pdf, bounds, [
+          setStrokingRgbColor(red, green, blue),
+          setLineWidth(annotation.width),
+          setLineCap(LineCapStyle.Round),
+          setLineJoin(LineJoinStyle.Round),
+          moveTo(points[0].x, points[0].y),
+          ...points.slice(1).map((point) => lineTo(point.x, point.y)),
+          stroke(),
+        ]),
+        ...textEntries(annotation),
+      });
+    }
+  }
+};
+
+/**
+ * The original PDF with the annotations added as standard PDF annotations,
+ * which other viewers can show, edit and reply to
+ */
+export const exportAnnotatedPdf = async (file: File, annotations: Annotation[]): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const pages = pdf.getPages();
+
+  annotations.forEach((annotation) => {
+    const page = pages[annotation.pageNumber - 1];
+    if (!page || (annotation.type === 'ink' && !annotation.points.length)) return;
+    const dictionary = createAnnotation(pdf, page, annotation);
+    dictionary.set(PDFName.of('P'), page.ref);
+    page.node.addAnnot(pdf.context.register(dictionary));
+  });
+
+  return pdf.save();
+};
@@ -0,0 +1,199 @@
+// Structured model of the text extracted from a PDF
+import type { TextContent, TextItem } from 'react-pdf';
+import type { PageViewport } from 'pdfjs-dist';
+
+/**
+ * Rectangle in unscaled viewport units (scale 1, top-left origin),
+ * so it can be multiplied by the viewer scale to position overlays.
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextSpan {
+  text: string;
+  bbox: BoundingBox;
+  /** Font name as reported by pdf.js (resolved to the real font name when available) */
+  fontName: string;
+  /** Generic CSS family from the text content styles, e.g. "serif" */
+  fontFamily: string;
+  fontSize: number;
+  pageNumber: number;
+  /** Position of the item in `getTextContent().items`, used to map back to the text layer; -1 for OCR text */
+  itemIndex: number;
+}
+
+export interface TextLine {
+  spans: TextSpan[];
+  bbox: BoundingBox;
+  /** Baseline position in viewport units */
+  baseline: number;
+  pageNumber: number;
+}
+
+export interface TextBlock {
+  lines: TextLine[];
+  bbox: BoundingBox;
+  pageNumber: number;
+}
+
+export type PageTextSource = 'text' | 'ocr';
+
+export interface PageModel {
+  pageNumber: number;
+  width: number;
+  height: number;
+  blocks: TextBlock[];
+  /** Where the text came from; pages without it were read from the text layer */
+  source?: PageTextSource;
+  /** Mean OCR word confidence, 0-100 */
+  confidence?: number;
+}
+
+export interface DocumentModel {
+  /** Pages sorted by page number; pages that are not extracted yet are missing */
+  pages: PageModel[];
+}
+
+interface FormatOptions {
+  pageNumber: number;
+  viewport: PageViewport;
+  /** Maps pdf.js font ids (e.g. "g_d0_f1") to the embedded font name */
+  resolveFontName?: (fontId: string) => string | undefined;
+}
+
+// Items whose baselines are this close belong to the same line
+const LINE_THRESHOLD = 4;
+// Baseline gap that starts a new block (paragraph)
+const BLOCK_GAP = 12;
+
+export const emptyDocumentModel = (): DocumentModel => ({ pages: [] });
+
+export const unionBoxes = (boxes: BoundingBox[]): BoundingBox => {
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const isTextItem = (item: TextContent['items'][number]): item is TextItem =>
+  'str' in item;
+
+const itemToSpan = (
+  item: TextItem,
+  itemIndex: number,
+  styles: TextContent['styles'],
+  { pageNumber, viewport, resolveFontName }: FormatOptions
+): PositionedSpan => {
+  const [, , c, d, e, f] = item.transform;
+  const fontSize = Math.hypot(c, d) || item.height;
+  const [x1, y1] = viewport.convertToViewportPoint(e, f);
+  const [x2, y2] = viewport.convertToViewportPoint(e + item.width, f + fontSize);
+
+  return {
+    text: item.str,
+    bbox: {
+      x: Math.min(x1, x2),
+      y: Math.min(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+    },
+    fontName: resolveFontName?.(item.fontName) ?? item.fontName,
+    fontFamily: styles[item.fontName]?.fontFamily ?? '',
+    fontSize,
+    pageNumber,
+    itemIndex,
+    baseline: y1,
+  };
+};
+
+/** A span together with the baseline of the line it was read from */
+export type PositionedSpan = TextSpan & { baseline: number };
+
+/**
+ * Group spans into lines by baseline and lines into blocks by vertical gaps
+ */
+export const buildBlocks = (spans: PositionedSpan[], pageNumber: number): TextBlock[] => {
+  const lines: TextLine[] = [];
+  [...spans]
+    .sort((a, b) => (a.baseline - b.baseline) || (a.bbox.x - b.bbox.x))
+    .forEach(({ baseline, ...span }) => {
+      const last = lines[lines.length - 1];
+      if (!last || Math.abs(last.baseline - baseline) > LINE_THRESHOLD) {
+        lines.push({ spans: [span], bbox: span.bbox, baseline, pageNumber });
+      } else {
+        last.spans.push(span);
+        last.bbox = unionBoxes([last.bbox, span.bbox]);
+      }
+    });
+  lines.forEach((line) => line.spans.sort((a, b) => a.bbox.x - b.bbox.x));
+
+  const blocks: TextBlock[] = [];
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    const last = blocks[blocks.length - 1];
+    if (!last || !previous || Math.abs(line.baseline - previous.baseline) > BLOCK_GAP) {
+      blocks.push({ lines: [line], bbox: line.bbox, pageNumber });
+    } else {
+      last.lines.push(line);
+      last.bbox = unionBoxes([last.bbox, line.bbox]);
+    }
+  });
+  return blocks;
+};
+
+/**
+ * Reconstruct lines and blocks from the text items of one page
+ */
+export const formatTextContent = (textContent: TextContent, options: FormatOptions): PageModel => {
+  const { pageNumber, viewport } = options;
+  const spans = textContent.items
+    .map((item, index) => (isTextItem(item) ? itemToSpan(item, index, textContent.styles, options) : null))
+    .filter((span) => span && span.text.trim().length > 0);
+
+  return { pageNumber, width: viewport.width, height: viewport.height, blocks: buildBlocks(spans, pageNumber), source: 'text' };
+};
+
+export const lineToText = (line: TextLine): string =>
+  line.spans.reduce((text, span) => {
+    const needsSpace = text && !text.endsWith(' ') && !span.text.startsWith(' ');
+    return text + (needsSpace ? ' ' : '') + span.text;
+  }, '').trim();
+
+export const blockToText = (block: TextBlock): string =>
+  block.lines.map(lineToText).join('\n');
+
+/**
+ * Plain text of a page: lines separated by line breaks, blocks by blank lines
+ */
+export const pageToText = (page: PageModel): string =>
+  page.blocks.map(blockToText).join('\n\n');
+
+/**
+ * Insert or replace a page, keeping pages ordered by page number
+ */
+export const upsertPage = (model: DocumentModel, page: PageModel): DocumentModel => ({
+  pages: [...model.pages.filter((existing) => existing.pageNumber !== page.pageNumber), page]
+    .sort((a, b) => a.pageNumber - b.pageNumber),
+});
+
+export const getPage = (model: DocumentModel, pageNumber: number): PageModel | undefined =>
+  model.pages.find((page) => page.pageNumber === pageNumber);
+
+/**
+ * Box of characters [start, end) of a span. Glyph widths are not known, so
+ * characters are taken to be equally wide. Vertical spans, as on rotated
+ * pages, do not record which way they run and get the whole box.
+ */
+export const spanTextBox = (span: TextSpan, start: number, end: number): BoundingBox => {
+  if (span.bbox.height > span.bbox.width) return span.bbox;
+  const charWidth = span.bbox.width / Math.max(1, span.text.length);
+  return { ...span.bbox, x: span.bbox.x + start * charWidth, width: (end - start) * charWidth };
+};
+
+export const getPageSpans = (page: PageModel): TextSpan[] =>
+  page.blocks.flatMap((block) => block.lines.flatMap((line) => line.spans));
@@ -0,0 +1,134 @@
+// IndexedDB persistence for uploaded documents and their text
+import type { Annotation } from '@/services/annotations';
+import type { DocumentModel } from '@/services/documentModel';
+import type { Redaction } from '@/services/redaction';
+import type { TextSnapshot } from '@/services/textHistory';
+
+const DB_NAME = 'pdf-insight';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';
+const DOCUMENTS_STORE = 'documents';
+const SESSION_STORE = 'session';
+
+/**
+ * Everything about a document except the PDF bytes, which live in their own
+ * store so text edits do not rewrite the file on every save
+ */
+export interface StoredDocument {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  addedAt: number;
+  openedAt: number;
+  numPages: number;
+  pageTexts: Record<number, string>;
+  /** Missing in documents saved before edits were kept per page */
+  editedPages?: Record<number, string>;
+  /** Whole edited text, only in documents saved before edits were kept per page */
+  editedText?: string | null;
+  documentModel: DocumentModel;
+  /** Missing in documents saved before column detection existed */
+  columnLayout?: boolean;
+  /** Missing in documents saved before annotations existed */
+  annotations?: Annotation[];
+  /** Missing in documents saved before redaction existed */
+  redactions?: Redaction[];
+  /** Missing in documents saved before snapshots existed */
+  snapshots?: TextSnapshot[];
+}
+
+export interface StoredSession {
+  activeId: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE);
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const isStorageAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const saveFile = (id: string, file: Blob) =>
+  withStore(FILES_STORE, 'readwrite', (store) => store.put(file, id));
+
+export const loadFile = (id: string) =>
+  withStore<Blob | undefined>(FILES_STORE, 'readonly', (store) => store.get(id));
+
+export const saveDocument = (document: StoredDocument) =>
+  withStore(DOCUMENTS_STORE, 'readwrite', (store) => store.put(document));
+
+export const loadDocuments = () =>
+  withStore<StoredDocument[]>(DOCUMENTS_STORE, 'readonly', (store) => store.getAll());
+
+export const deleteDocument = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([FILES_STORE, DOCUMENTS_STORE], 'readwrite');
+  transaction.objectStore(FILES_STORE).delete(id);
+  transaction.objectStore(DOCUMENTS_STORE).delete(id);
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const saveSession = (session: StoredSession) =>
+  withStore(SESSION_STORE, 'readwrite', (store) => store.put(session, 'current'));
+
+export const loadSession = () =>
+  withStore<StoredSession | undefined>(SESSION_STORE, 'readonly', (store) => store.get('current'));
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * Browser-reported storage usage for this origin, null when unsupported
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/**
+ * Ask the browser not to evict our data under storage pressure
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
@@ -0,0 +1,319 @@
+// Headings, lists and emphasis recovered from the fonts of the document model,
+// shared by the structured exports (Markdown, DOCX)
+import { getPageSpans, type DocumentModel, type PageModel, type TextLine } from '@/services/documentModel';
+import { applyColumnLayout } from '@/services/readingOrder';
+import { BULLET_REGEX } from '@/services/textCleanup';
+import { pageMarkerPattern } from '@/services/pageSeparators';
+import { parseBold, parseHeading } from '@/services/textMarkup';
+
+export interface StructureOptions {
+  /** Read multi-column pages column by column */
+  columnLayout?: boolean;
+}
+
+/** A stretch of text set in one style */
+export interface TextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export type StructuredBlock =
+  | { type: 'heading'; level: number; runs: TextRun[] }
+  | { type: 'paragraph'; runs: TextRun[] }
+  | { type: 'item'; ordered: boolean; number?: number; runs: TextRun[] };
+
+export interface StructuredPage {
+  pageNumber: number;
+  blocks: StructuredBlock[];
+}
+
+export const MAX_HEADING_LEVEL = 6;
+
+const BOLD_FONT_REGEX = /bold|black|heavy|semibold|demi/i;
+const ITALIC_FONT_REGEX = /italic|oblique/i;
+// Symbol-font bullets are often mapped to the private use area
+const BULLET_START_REGEX = new RegExp(`^(?:${BULLET_REGEX.source}|[\\uf0a7\\uf0b7]|[-–*](?=\\s))\\s*`);
+const ORDERED_START_REGEX = /^(\d{1,3})[.)]\s+/;
+// Blocks set this much larger than body text are headings
+const HEADING_SIZE_RATIO = 1.15;
+// Longer blocks are paragraphs, whatever their font
+const MAX_HEADING_LENGTH = 120;
+const MAX_HEADING_LINES = 3;
+// Lines further apart than this many font sizes start a new paragraph
+const PARAGRAPH_GAP = 1.5;
+
+const roundSize = (size: number) => Math.round(size * 2) / 2;
+
+const groupSpans = (lines: TextLine[]) => lines.flatMap((line) => line.spans);
+
+/**
+ * Font size of most characters, weighted by text length
+ */
+const dominantSize = (spans: { text: string; fontSize: number }[]) => {
+  const counts = new Map<number, number>();
+  spans.forEach((span) => {
+    const size = roundSize(span.fontSize);
+    counts.set(size, (counts.get(size) ?? 0) + span.text.length);
+  });
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+};
+
+const isBoldFont = (fontName: string) => BOLD_FONT_REGEX.test(fontName);
+const isItalicFont = (fontName: string) => ITALIC_FONT_REGEX.test(fontName);
+
+const lineRuns = (line: TextLine): TextRun[] =>
+  line.spans
+    .filter((span) => span.text.trim())
+    .map((span, index, spans) => {
+      const previous = spans[index - 1];
+      const needsSpace = previous && !previous.text.endsWith(' ') && !span.text.startsWith(' ');
+      return {
+        text: (needsSpace ? ' ' : '') + span.text,
+        bold: isBoldFont(span.fontName),
+        italic: isItalicFont(span.fontName),
+      };
+    });
+
+export const runsText = (runs: TextRun[]) => runs.map((run) => run.text).join('');
+
+/**
+ * Remove the first `count` characters (a list marker) from the runs
+ */
+const dropLeading = (runs: TextRun[], count: number): TextRun[] => {
+  let remaining = count;
+  const rest = runs
+    .map((run) => {
+      const cut = Math.min(remaining, run.text.length);
+      remaining -= cut;
+      return { ...run, text: run.text.slice(cut) };
+    })
+    .filter((run) => run.text.trim());
+  return rest.map((run, index) => (index === 0 ? { ...run, text: run.text.trimStart() } : run));
+};
+
+/**
+ * Join lines of a paragraph, undoing hyphenation at line ends
+ */
+const joinLines = (lines: TextRun[][]): TextRun[] =>
+  lines.reduce<TextRun[]>((joined, runs) => {
+    if (!joined.length) return [...runs];
+    const last = joined[joined.length - 1];
+    const next = runs[0];
+    if (!next) return joined;
+    if (/[a-z]-$/.test(last.text.trimEnd()) && /^[a-z]/.test(next.text.trimStart())) {
+      return [...joined.slice(0, -1), { ...last, text: last.text.trimEnd().slice(0, -1) }, { ...next, text: next.text.trimStart() }, ...runs.slice(1)];
+    }
+    return [...joined, { ...next, text: ` ${next.text.trimStart()}` }, ...runs.slice(1)];
+  }, []);
+
+/**
+ * Merge neighbouring runs of the same style and trim the ends
+ */
+const mergeRuns = (runs: TextRun[]): TextRun[] => {
+  const merged: TextRun[] = [];
+  runs.forEach((run) => {
+    const last = merged[merged.length - 1];
+    if (last && last.bold === run.bold && last.italic === run.italic) {
+      last.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  });
+  if (merged.length) {
+    merged[0].text = merged[0].text.trimStart();
+    merged[merged.length - 1].text = merged[merged.length - 1].text.trimEnd();
+  }
+  return merged.filter((run) => run.text);
+};
+
+/**
+ * Regroup the lines of a page into paragraphs by line spacing; blocks of the
+ * model are split at a fixed gap, which is narrower than most body leading
+ */
+const groupParagraphs = (page: PageModel): TextLine[][] => {
+  const groups: TextLine[][] = [];
+  page.blocks.flatMap((block) => block.lines).forEach((line) => {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    const size = dominantSize(line.spans);
+    const gap = previous ? line.baseline - previous.baseline : 0;
+    // Moving up the page (next column) or changing font size also ends a paragraph
+    if (previous && gap > 0 && gap <= size * PARAGRAPH_GAP && size === dominantSize(previous.spans)) {
+      group.push(line);
+    } else {
+      groups.push([line]);
+    }
+  });
+  return groups;
+};
+
+const isHeadingShaped = (lines: TextLine[]) =>
+  lines.length <= MAX_HEADING_LINES &&
+  lines.map((line) => runsText(lineRuns(line))).join(' ').length <= MAX_HEADING_LENGTH;
+
+/**
+ * Heading levels for font sizes larger than the body text, largest first
+ */
+const headingLevels = (pages: PageModel[], bodySize: number): Map<number, number> => {
+  const sizes = new Set<number>();
+  pages
+    .filter((page) => page.source !== 'ocr')
+    .forEach((page) => groupParagraphs(page).forEach((lines) => {
+      const size = dominantSize(groupSpans(lines));
+      if (size >= bodySize * HEADING_SIZE_RATIO && isHeadingShaped(lines)) sizes.add(size);
+    }));
+  const levels = new Map<number, number>();
+  [...sizes]
+    .sort((a, b) => b - a)
+    .forEach((size, index) => levels.set(size, Math.min(index + 1, MAX_HEADING_LEVEL - 1)));
+  return levels;
+};
+
+const paragraphToBlocks = (
+  lines: TextLine[],
+  page: PageModel,
+  levels: Map<number, number>
+): StructuredBlock[] => {
+  const spans = groupSpans(lines);
+  if (!spans.some((span) => span.text.trim())) return [];
+
+  if (page.source !== 'ocr' && isHeadingShaped(lines)) {
+    const sizeLevel = levels.get(dominantSize(spans));
+    // Bold text at body size, alone on its line, is the lowest heading level
+    const boldLevel = lines.length === 1 && spans.every((span) => !span.text.trim() || isBoldFont(span.fontName))
+      && !BULLET_START_REGEX.test(runsText(lineRuns(lines[0])).trim())
+      ? Math.min(levels.size + 1, MAX_HEADING_LEVEL)
+      : undefined;
+    const level = sizeLevel ?? boldLevel;
+    if (level) {
+      return [{ type: 'heading', level, runs: mergeRuns(joinLines(lines.map(lineRuns))) }];
+    }
+  }
+
+  const blocks: StructuredBlock[] = [];
+  let current: { item: { ordered: boolean; number?: number } | null; lines: TextRun[][] } | null = null;
+  const flush = () => {
+    if (!current) return;
+    const runs = mergeRuns(joinLines(current.lines));
+    if (runs.length) {
+      blocks.push(current.item ? { type: 'item', ...current.item, runs } : { type: 'paragraph', runs });
+    }
+    current = null;
+  };
+
+  lines.forEach((line) => {
+    const runs = lineRuns(line);
+    const text = runsText(runs);
+    const plain = text.trimStart();
+    const bullet = plain.match(BULLET_START_REGEX);
+    const ordered = plain.match(ORDERED_START_REGEX);
+    if (bullet || ordered) {
+      flush();
+      const marker = bullet ?? ordered;
+      current = {
+        item: bullet ? { ordered: false } : { ordered: true, number: Number(ordered[1]) },
+        lines: [dropLeading(runs, text.length - plain.length + marker[0].length)],
+      };
+    } else if (current) {
+      current.lines.push(runs);
+    } else {
+      current = { item: null, lines: [runs] };
+    }
+  });
+  flush();
+  return blocks;
+};
+
+/**
+ * Headings from font size and weight, list items from bullet glyphs and
+ * numbers, emphasis from font names
+ */
+export const analyzeDocument = (model: DocumentModel, { columnLayout = false }: StructureOptions = {}): StructuredPage[] => {
+  const pages = columnLayout ? model.pages.map(applyColumnLayout) : model.pages;
+  const bodySize = dominantSize(pages.filter((page) => page.source !== 'ocr').flatMap(getPageSpans));
+  const levels = headingLevels(pages, bodySize);
+
+  return pages.map((page) => ({
+    pageNumber: page.pageNumber,
+    blocks: groupParagraphs(page).flatMap((lines) => paragraphToBlocks(lines, page, levels)),
+  }));
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Heading levels by heading text, to recognise headings in edited text
+ */
+export const headingIndex = (pages: StructuredPage[]): Map<string, number> =>
+  new Map(pages.flatMap((page) => page.blocks
+    .filter((block) => block.type === 'heading')
+    .map((block) => [normalizeText(runsText(block.runs)), (block as { level: number }).level] as [string, number])));
+
+/**
+ * Structure of plain text, for documents whose text was edited after
+ * extraction: pages split at form feeds or at the page separator, paragraphs
+ * at blank lines, headings marked with `#` or matched against the headings of
+ * the original, and bold text marked with `**`
+ */
+export const textToStructure = (
+  text: string,
+  { pageSeparator = '', headings = new Map<string, number>() }: { pageSeparator?: string; headings?: Map<string, number> } = {}
+): StructuredPage[] => {
+  const markerRegex = pageMarkerPattern(pageSeparator);
+  const pageTexts = (markerRegex ? text.replace(markerRegex, '\f') : text).split('\f');
+  const toRuns = (line: string): TextRun[] => parseBold(line).map((run) => ({ ...run, italic: false }));
+
+  return pageTexts.map((pageText, index) => ({
+    pageNumber: index + 1,
+    blocks: pageText
+      .split(/\n\s*\n/)
+      .flatMap<StructuredBlock>((paragraph) => {
+        const lines = paragraph.split('\n').map((line) => line.trim()).filter(Boolean);
+        if (!lines.length) return [];
+        const level = headings.get(normalizeText(paragraph));
+        if (level) return [{ type: 'heading', level, runs: [{ text: lines.join(' '), bold: false, italic: false }] }];
+
+        const blocks: StructuredBlock[] = [];
+        lines.forEach((line) => {
+          const heading = parseHeading(line);
+          const bullet = line.match(BULLET_START_REGEX);
+          const ordered = line.match(ORDERED_START_REGEX);
+          const last = blocks[blocks.length - 1];
+          if (heading) {
+            blocks.push({ type: 'heading', level: heading.level, runs: [{ text: runsText(toRuns(heading.text)), bold: false, italic: false }] });
+          } else if (bullet || ordered) {
+            const runs = toRuns(line.slice((bullet ?? ordered)[0].length));
+            blocks.push(bullet ? { type: 'item', ordered: false, runs } : { type: 'item', ordered: true, number: Number(ordered[1]), runs });
+          } else if (last && last.type !== 'heading') {
+            last.runs.push(...toRuns(` ${line}`));
+          } else {
+            blocks.push({ type: 'paragraph', runs: toRuns(line) });
+          }
+        });
+        return blocks;
+      }),
+  }));
+};
+
+/**
+ * Structure of a document where only some pages were edited: the other pages
+ * keep the structure found in the PDF, edited pages are read from their text
+ */
+export const editedDocumentStructure = (
+  model: DocumentModel,
+  editedPages: Record<number, string>,
+  options: StructureOptions = {}
+): StructuredPage[] => {
+  const original = analyzeDocument(model, options);
+  const headings = headingIndex(original);
+  const edited = (pageNumber: number): StructuredPage => ({
+    pageNumber,
+    blocks: textToStructure(editedPages[pageNumber], { headings })[0].blocks,
+  });
+  const pageNumbers = new Set([...original.map((page) => page.pageNumber), ...Object.keys(editedPages).map(Number)]);
+  return [...pageNumbers]
+    .sort((a, b) => a - b)
+    .map((pageNumber) =>
+      pageNumber in editedPages ? edited(pageNumber) : original.find((page) => page.pageNumber === pageNumber));
+};
@@ -0,0 +1,144 @@
+// Export the document structure as a Word (Office Open XML) document
+import { strToU8, zipSync } from 'fflate';
+import { XML_DECLARATION, escapeXml } from '@/services/officeXml';
+import { MAX_HEADING_LEVEL, type StructuredBlock, type StructuredPage, type TextRun } from '@/services/documentStructure';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Numbering instance of bulleted lists; ordered lists each get their own so numbering restarts
+const BULLET_NUM_ID = 1;
+
+// Heading font sizes in half-points, from Heading1 down
+const HEADING_SIZES = [32, 28, 26, 24, 22, 22];
+
+const runXml = ({ text, bold, italic }: TextRun) => {
+  const properties = `${bold ? '<w:b/>' : ''}${italic ? '<w:i/>' : ''}`;
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraphXml = (runs: TextRun[], properties: string) =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs.map(runXml).join('')}</w:p>`;
+
+const blockProperties = (block: StructuredBlock, numId: number) => {
+  switch (block.type) {
+    case 'heading':
+      return `<w:pStyle w:val="Heading${block.level}"/>`;
+    case 'item':
+      return `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>`;
+    default:
+      return '';
+  }
+};
+
+const levelXml = (format: 'bullet' | 'decimal', text: string) =>
+  `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+  '<w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>';
+
+const numberingXml = (orderedStarts: number[]) =>
+  XML_DECLARATION +
+  `<w:numbering xmlns:w="${WORD_NAMESPACE}">` +
+  `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>${levelXml('bullet', '•')}</w:abstractNum>` +
+  `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="singleLevel"/>${levelXml('decimal', '%1.')}</w:abstractNum>` +
+  `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>` +
+  orderedStarts
+    .map((start, index) =>
+      `<w:num w:numId="${BULLET_NUM_ID + 1 + index}"><w:abstractNumId w:val="1"/>` +
+      `<w:lvlOverride w:ilvl="0"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`)
+    .join('') +
+  '</w:numbering>';
+
+const headingStyleXml = (level: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/>` +
+  '<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>' +
+  `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+  `<w:rPr><w:b/><w:sz w:val="${HEADING_SIZES[level - 1]}"/></w:rPr></w:style>`;
+
+const STYLES_XML =
+  XML_DECLARATION +
+  `<w:styles xmlns:w="${WORD_NAMESPACE}">` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+  '<w:sz w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="259" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  Array.from({ length: MAX_HEADING_LEVEL }, (_, index) => headingStyleXml(index + 1)).join('') +
+  '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:after="40"/><w:ind w:left="720"/><w:contextualSpacing/></w:pPr></w:style>' +
+  '</w:styles>';
+
+/**
+ * Body paragraphs, with a page break before the first paragraph of each page
+ * and the ordered lists whose numbering needs its own instance
+ */
+const bodyXml = (pages: StructuredPage[]) => {
+  const orderedStarts: number[] = [];
+  let previous: StructuredBlock | undefined;
+
+  const paragraphs = pages.flatMap((page, pageIndex) => {
+    const pageBreak = pageIndex > 0 ? '<w:pageBreakBefore/>' : '';
+    if (!page.blocks.length) {
+      previous = undefined;
+      return [paragraphXml([], pageBreak)];
+    }
+    return page.blocks.map((block, blockIndex) => {
+      // Bullet lists run on across paragraphs; a new ordered list restarts its numbering
+      if (block.type === 'item' && block.ordered && !(previous?.type === 'item' && previous.ordered)) {
+        orderedStarts.push(block.number ?? 1);
+      }
+      previous = block;
+      const numId = block.type === 'item' && block.ordered ? BULLET_NUM_ID + orderedStarts.length : BULLET_NUM_ID;
+      // w:pPr children follow a fixed order: style first, then page break, then numbering
+      const properties = blockProperties(block, numId);
+      const withBreak = blockIndex === 0 && pageBreak
+        ? properties.replace(/^(<w:pStyle [^>]*\/>)?/, `$1${pageBreak}`)
+        : properties;
+      // Heading styles set their own weight
+      const runs = block.type === 'heading' ? block.runs.map((run) => ({ ...run, bold: false, italic: false })) : block.runs;
+      return paragraphXml(runs, withBreak);
+    });
+  });
+
+  return { paragraphs, orderedStarts };
+};
+
+export const structureToDocx = (pages: StructuredPage[]): Blob => {
+  const { paragraphs, orderedStarts } = bodyXml(pages);
+  const documentXml =
+    XML_DECLARATION +
+    `<w:document xmlns:w="${WORD_NAMESPACE}"><w:body>` +
+    paragraphs.join('') +
+    // US Letter with one-inch margins, in twentieths of a point
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+    '</w:body></w:document>';
+
+  const files = {
+    '[Content_Types].xml': strToU8(
+      XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+      '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '</Relationships>'
+    ),
+    'word/_rels/document.xml.rels': strToU8(
+      XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+      '</Relationships>'
+    ),
+    'word/document.xml': strToU8(documentXml),
+    'word/styles.xml': strToU8(STYLES_XML),
+    'word/numbering.xml': strToU8(numberingXml(orderedStarts)),
+  };
+  return new Blob([zipSync(files)], { type: DOCX_MIME_TYPE });
+};
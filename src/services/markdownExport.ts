@@ -0,0 +1,50 @@
+// Markdown export that keeps the structure carried by the PDF's fonts
+import type { StructuredBlock, StructuredPage, TextRun } from '@/services/documentStructure';
+
+const escapeInline = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+// Text that would otherwise start a heading, quote, list or rule
+const escapeLineStart = (text: string) =>
+  text.replace(/^([#>+=-])/, '\\$1').replace(/^(\d+)([.)])(?=\s)/, '$1\\$2');
+
+/**
+ * Markdown for a run of text, wrapping bold and italic stretches
+ */
+const renderRuns = (runs: TextRun[], plain = false): string =>
+  runs
+    .map(({ text, bold, italic }) => {
+      const escaped = escapeInline(text);
+      if (plain || (!bold && !italic) || !text.trim()) return escaped;
+      const marker = bold && italic ? '***' : bold ? '**' : '*';
+      // Markers must touch the text, so surrounding spaces stay outside
+      const [, before, inner, after] = escaped.match(/^(\s*)(.*?)(\s*)$/s) ?? ['', '', escaped, ''];
+      return `${before}${marker}${inner}${marker}${after}`;
+    })
+    .join('');
+
+const renderBlock = (block: StructuredBlock): string => {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${renderRuns(block.runs, true)}`;
+    case 'item':
+      return `${block.ordered ? `${block.number}.` : '-'} ${renderRuns(block.runs)}`;
+    default:
+      return escapeLineStart(renderRuns(block.runs));
+  }
+};
+
+/**
+ * Markdown for structured pages, analyzed from the PDF or read from edited text
+ */
+export const structureToMarkdown = (pages: StructuredPage[]): string => {
+  const blocks = pages.flatMap((page) => page.blocks);
+  return blocks
+    .map((block, index) => {
+      // Items of one list stay together; everything else is separated by a blank line
+      const previous = blocks[index - 1];
+      const sameList = block.type === 'item' && previous?.type === 'item' && block.ordered === previous.ordered;
+      const separator = index === 0 ? '' : sameList ? '\n' : '\n\n';
+      return separator + renderBlock(block);
+    })
+    .join('') + '\n';
+};
@@ -0,0 +1,84 @@
+// Offline OCR for pages without a text layer
+import { createWorker, OEM, type Bbox, type Worker } from 'tesseract.js';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { BoundingBox, PageModel, TextBlock, TextLine } from '@/services/documentModel';
+
+// Worker, WebAssembly core and language data are copied into the build by vite.config.ts
+const OCR_ASSETS_PATH = `${import.meta.env.BASE_URL}tesseract`;
+
+// Render scale for OCR; tesseract works best around 300 DPI
+const OCR_SCALE = 3;
+
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', OEM.LSTM_ONLY, {
+      workerPath: `${OCR_ASSETS_PATH}/worker.min.js`,
+      corePath: `${OCR_ASSETS_PATH}/core`,
+      langPath: `${OCR_ASSETS_PATH}/lang`,
+      gzip: true,
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+const renderPageToCanvas = async (page: PDFPageProxy): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  return canvas;
+};
+
+const toBoundingBox = ({ x0, y0, x1, y1 }: Bbox): BoundingBox => ({
+  x: x0 / OCR_SCALE,
+  y: y0 / OCR_SCALE,
+  width: (x1 - x0) / OCR_SCALE,
+  height: (y1 - y0) / OCR_SCALE,
+});
+
+/**
+ * Render the page offscreen and run OCR over it, returning the result in the
+ * same page model used for native text so both can be stored side by side
+ */
+export const recognizePage = async (page: PDFPageProxy, pageNumber: number): Promise<PageModel> => {
+  const [worker, canvas] = await Promise.all([getWorker(), renderPageToCanvas(page)]);
+  const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+  const viewport = page.getViewport({ scale: 1 });
+
+  const blocks: TextBlock[] = (data.blocks ?? []).flatMap((block) =>
+    block.paragraphs.map((paragraph) => {
+      const lines: TextLine[] = paragraph.lines
+        .filter((line) => line.words.some((word) => word.text.trim()))
+        .map((line) => ({
+          bbox: toBoundingBox(line.bbox),
+          baseline: line.baseline.y0 / OCR_SCALE,
+          pageNumber,
+          spans: line.words.map((word) => ({
+            text: word.text,
+            bbox: toBoundingBox(word.bbox),
+            fontName: 'OCR',
+            fontFamily: '',
+            fontSize: (word.bbox.y1 - word.bbox.y0) / OCR_SCALE,
+            pageNumber,
+            itemIndex: -1,
+          })),
+        }));
+      return { lines, bbox: toBoundingBox(paragraph.bbox), pageNumber };
+    })
+  ).filter((block) => block.lines.length > 0);
+
+  return {
+    pageNumber,
+    width: viewport.width,
+    height: viewport.height,
+    blocks,
+    source: 'ocr',
+    confidence: data.confidence,
+  };
+};
@@ -0,0 +1,18 @@
+// Helpers shared by the Office Open XML exports (XLSX, DOCX)
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+const isXmlCharacter = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+export const escapeXml = (value: string) =>
+  Array.from(value)
+    .filter(isXmlCharacter)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
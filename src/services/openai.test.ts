@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { splitIntoChunks } from '@/services/openai';
+
+describe('splitIntoChunks', () => {
+  it('makes a chunk of each page, even when pages are joined with a blank line', () => {
+    expect(splitIntoChunks({ 1: 'Hello world', 2: 'Second page', 3: 'Third' }, '\n\n')).toEqual([
+      { text: 'Hello world', separator: '\n\n' },
+      { text: 'Second page', separator: '\n\n' },
+      { text: 'Third', separator: '' },
+    ]);
+  });
+
+  it('puts the page number of the following page in the separator', () => {
+    expect(splitIntoChunks({ 2: 'B', 1: 'A' }, '\n\n--- Page {page} ---\n\n')).toEqual([
+      { text: 'A', separator: '\n\n--- Page 2 ---\n\n' },
+      { text: 'B', separator: '' },
+    ]);
+  });
+
+  it('splits long pages at paragraph breaks', () => {
+    const paragraph = 'x'.repeat(3000);
+    expect(splitIntoChunks({ 1: `${paragraph}\n\n${paragraph}` }, '\n\n')).toEqual([
+      { text: paragraph, separator: '\n\n' },
+      { text: paragraph, separator: '' },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+// Edits of the joined document text, mapped back onto the pages it was joined from
+import { diffLines, diffWordsWithSpace, type Change } from 'diff';
+import { formatPageSeparator, joinPageTexts } from '@/services/pageSeparators';
+
+// Larger rewrites, or ones that take longer to compare (ms), are compared line by line
+const MAX_EDIT_LENGTH = 5000;
+const WORD_DIFF_TIMEOUT = 1000;
+
+/**
+ * Offset in the new text for an offset in the old one. The 'before' bias maps
+ * to the start of text inserted at the offset or replacing it, 'after' to its end.
+ */
+const offsetMapper = (changes: Change[], bias: 'before' | 'after') => (offset: number): number => {
+  let oldPosition = 0;
+  let newPosition = 0;
+  for (const [index, change] of changes.entries()) {
+    const length = change.value.length;
+    if (change.added) {
+      if (bias === 'before' && offset === oldPosition) return newPosition;
+      newPosition += length;
+      continue;
+    }
+    if (offset < oldPosition + length) {
+      if (!change.removed) return newPosition + offset - oldPosition;
+      const replacement = changes[index + 1]?.added ? changes[index + 1].value.length : 0;
+      return bias === 'after' ? newPosition + replacement : newPosition;
+    }
+    oldPosition += length;
+    if (!change.removed) newPosition += length;
+  }
+  return newPosition;
+};
+
+/**
+ * Text of each page after the joined text was changed to `text`. A page ends
+ * where the next separator is found again. Separators that only hold
+ * whitespace are looked for where the edit moved them; when the edit broke
+ * one, the pages on either side stay apart and it is put back on joining.
+ * A page marker that was deleted leaves its page empty.
+ */
+export const splitIntoPages = (pages: Record<number, string>, template: string, text: string): Record<number, string> => {
+  const pageNumbers = Object.keys(pages).map(Number).sort((a, b) => a - b);
+  if (!pageNumbers.length) return text ? { 1: text } : {};
+  const joined = joinPageTexts(pages, template);
+  if (joined === text) return pages;
+
+  // Only the stretch between the common start and end changed
+  let prefix = 0;
+  const maxPrefix = Math.min(joined.length, text.length);
+  while (prefix < maxPrefix && joined[prefix] === text[prefix]) prefix++;
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix && joined[joined.length - 1 - suffix] === text[text.length - 1 - suffix]) suffix++;
+  const changedEnd = joined.length - suffix;
+
+  let changes: Change[] | null = null;
+  const mapOffset = (offset: number, bias: 'before' | 'after') => {
+    if (offset < prefix) return offset;
+    if (offset > changedEnd) return offset + text.length - joined.length;
+    const oldPart = joined.slice(prefix, changedEnd);
+    const newPart = text.slice(prefix, text.length - suffix);
+    changes ??= diffWordsWithSpace(oldPart, newPart, { maxEditLength: MAX_EDIT_LENGTH, timeout: WORD_DIFF_TIMEOUT })
+      ?? diffLines(oldPart, newPart);
+    return prefix + offsetMapper(changes, bias)(offset - prefix);
+  };
+
+  const hasMarker = /\S/.test(template.replace(/\{page\}/g, ''));
+  const result: Record<number, string> = {};
+  let oldOffset = 0;
+  let pageStart = 0;
+  // Page that the text up to the next separator belongs to
+  let current = pageNumbers[0];
+  pageNumbers.forEach((pageNumber, index) => {
+    oldOffset += pages[pageNumber].length;
+    const next = pageNumbers[index + 1];
+    if (next === undefined) {
+      result[current] = text.slice(pageStart);
+      return;
+    }
+    const separator = formatPageSeparator(template, next);
+    oldOffset += separator.length;
+
+    if (hasMarker) {
+      const found = text.indexOf(separator, pageStart);
+      if (found < 0) {
+        result[next] = '';
+        return;
+      }
+      result[current] = text.slice(pageStart, found);
+      pageStart = found + separator.length;
+      current = next;
+      return;
+    }
+
+    // Where the separator went, including anything typed right around it
+    const windowStart = Math.max(pageStart, mapOffset(oldOffset - separator.length, 'before'));
+    const windowEnd = Math.max(windowStart, mapOffset(oldOffset, 'after'));
+    const found = text.slice(windowStart, windowEnd).indexOf(separator);
+    if (found >= 0) {
+      result[current] = text.slice(pageStart, windowStart + found);
+      pageStart = windowStart + found + separator.length;
+    } else {
+      // What is left of the separator is dropped; text typed into it stays with the page before
+      result[current] = text.slice(pageStart, windowEnd).trimEnd();
+      pageStart = windowEnd;
+    }
+    current = next;
+  });
+  return result;
+};
+
+/**
+ * The pages whose text differs from their extraction
+ */
+export const changedPages = (pageTexts: Record<number, string>, pages: Record<number, string>): Record<number, string> =>
+  Object.fromEntries(Object.entries(pages).filter(([pageNumber, text]) => pageTexts[Number(pageNumber)] !== text));
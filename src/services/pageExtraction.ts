@@ -0,0 +1,44 @@
+// Text extraction for a single page, shared by the extraction worker
+import type { TextContent } from 'react-pdf';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { formatTextContent, type PageModel } from '@/services/documentModel';
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export interface ExtractedPage {
+  pageNumber: number;
+  size: PageSize;
+  /** Null when the page has no text layer and needs OCR */
+  model: PageModel | null;
+}
+
+/**
+ * A page counts as image-only when its text layer has no visible characters
+ */
+export const isImageOnlyPage = (textContent: TextContent): boolean =>
+  !textContent.items.some((item) => 'str' in item && item.str.trim().length > 0);
+
+/**
+ * Read the text layer of one page into the document model
+ */
+export const extractPage = async (page: PDFPageProxy, pageNumber: number): Promise<ExtractedPage> => {
+  const viewport = page.getViewport({ scale: 1 });
+  const size = { width: viewport.width, height: viewport.height };
+  const textContent = await page.getTextContent();
+  if (isImageOnlyPage(textContent)) {
+    return { pageNumber, size, model: null };
+  }
+
+  // Fonts only reach commonObjs through the operator list; without it span
+  // font names stay pdf.js ids such as "g_d0_f1"
+  await page.getOperatorList();
+  const model = formatTextContent(textContent, {
+    pageNumber,
+    viewport,
+    resolveFontName: (fontId) => (page.commonObjs.has(fontId) ? page.commonObjs.get(fontId)?.name : undefined),
+  });
+  return { pageNumber, size, model };
+};
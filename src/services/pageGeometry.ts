@@ -0,0 +1,50 @@
+// Map between the unrotated page and the page as the viewer displays it
+import type { BoundingBox } from '@/services/documentModel';
+import type { PageSize } from '@/services/pageExtraction';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Map a box from the unrotated page to the page as displayed
+ */
+export const rotateBox = ({ x, y, width, height }: BoundingBox, page: PageSize, rotation: number): BoundingBox => {
+  switch (rotation) {
+    case 90:
+      return { x: page.height - (y + height), y: x, width: height, height: width };
+    case 180:
+      return { x: page.width - (x + width), y: page.height - (y + height), width, height };
+    case 270:
+      return { x: y, y: page.width - (x + width), width: height, height: width };
+    default:
+      return { x, y, width, height };
+  }
+};
+
+/**
+ * Map a point on the page as displayed, turned clockwise by the given
+ * rotation, back to the unrotated page of the given size
+ */
+export const unrotatePoint = ({ x, y }: Point, page: PageSize, rotation: number): Point => {
+  switch (rotation) {
+    case 90:
+      return { x: y, y: page.height - x };
+    case 180:
+      return { x: page.width - x, y: page.height - y };
+    case 270:
+      return { x: page.width - y, y: x };
+    default:
+      return { x, y };
+  }
+};
+
+/**
+ * Box on the unrotated page spanned by two points on the page as displayed
+ */
+export const unrotateRect = (first: Point, second: Point, page: PageSize, rotation: number): BoundingBox => {
+  const a = unrotatePoint(first, page, rotation);
+  const b = unrotatePoint(second, page, rotation);
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) };
+};
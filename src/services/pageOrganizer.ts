@@ -0,0 +1,75 @@
+// Build new PDF files from the pages of one or more documents with pdf-lib
+import { PDFDocument, degrees } from 'pdf-lib';
+
+export interface OrganizerPage {
+  /** Unique per entry, so duplicates of one page can be told apart */
+  id: string;
+  /** Workspace document the page comes from */
+  sourceId: string;
+  /** Page number in the source document, starting at 1 */
+  pageNumber: number;
+  /** Clockwise rotation added to the page's own, a multiple of 90 */
+  rotation: number;
+}
+
+export const createOrganizerPages = (sourceId: string, numPages: number): OrganizerPage[] =>
+  Array.from({ length: numPages }, (_, index) => ({
+    id: crypto.randomUUID(),
+    sourceId,
+    pageNumber: index + 1,
+    rotation: 0,
+  }));
+
+/**
+ * A new PDF with the given pages in order. Rotations are written into the
+ * pages, unlike the viewer's rotate button which only turns the display.
+ */
+export const buildPdf = async (pages: OrganizerPage[], sources: Record<string, File>): Promise<Uint8Array> => {
+  const output = await PDFDocument.create();
+  const loaded = new Map<string, PDFDocument>();
+
+  for (const page of pages) {
+    let source = loaded.get(page.sourceId);
+    if (!source) {
+      const file = sources[page.sourceId];
+      if (!file) throw new Error(`Source document ${page.sourceId} is not available`);
+      source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+      loaded.set(page.sourceId, source);
+    }
+    const [copy] = await output.copyPages(source, [page.pageNumber - 1]);
+    copy.setRotation(degrees((copy.getRotation().angle + page.rotation) % 360));
+    output.addPage(copy);
+  }
+
+  return output.save();
+};
+
+/**
+ * Parse ranges such as "1-3, 4, 7-" (open ranges run to the last page)
+ * into [first, last] pairs. Throws with a message for the user on invalid input.
+ */
+export const parsePageRanges = (input: string, pageCount: number): [number, number][] => {
+  const parts = input.split(',').map((part) => part.trim()).filter(Boolean);
+  if (!parts.length) throw new Error('Enter at least one page range, e.g. 1-3, 4-6');
+
+  return parts.map((part) => {
+    const match = part.match(/^(\d+)\s*(?:-\s*(\d*))?$/);
+    if (!match) throw new Error(`"${part}" is not a page range`);
+    const first = Number(match[1]);
+    const last = match[2] === undefined ? first : match[2] === '' ? pageCount : Number(match[2]);
+    if (first < 1 || last > pageCount || first > last) {
+      throw new Error(`"${part}" is outside pages 1-${pageCount}`);
+    }
+    return [first, last];
+  });
+};
+
+/**
+ * One PDF per range of the given pages
+ */
+export const splitPdf = (
+  pages: OrganizerPage[],
+  sources: Record<string, File>,
+  ranges: [number, number][]
+): Promise<Uint8Array[]> =>
+  Promise.all(ranges.map(([first, last]) => buildPdf(pages.slice(first - 1, last), sources)));
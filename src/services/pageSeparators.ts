@@ -0,0 +1,43 @@
+// Assembling per-page text into the document text
+
+export interface PageSeparatorPreset {
+  id: string;
+  label: string;
+  /** Text placed between two pages; `{page}` is replaced with the number of the page that follows */
+  template: string;
+}
+
+export const pageSeparatorPresets: PageSeparatorPreset[] = [
+  { id: 'blank-line', label: 'Blank line', template: '\n\n' },
+  { id: 'marker', label: 'Page marker (--- Page N ---)', template: '\n\n--- Page {page} ---\n\n' },
+  { id: 'form-feed', label: 'Form feed', template: '\n\f\n' },
+];
+
+export const DEFAULT_PAGE_SEPARATOR = pageSeparatorPresets[0].template;
+
+export const formatPageSeparator = (template: string, pageNumber: number): string =>
+  template.replace(/\{page\}/g, String(pageNumber));
+
+/**
+ * Join page texts in page order, whatever order they were extracted in
+ */
+export const joinPageTexts = (pageTexts: Record<number, string>, template: string): string =>
+  Object.keys(pageTexts)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .reduce((text, pageNumber, index) =>
+      index === 0
+        ? pageTexts[pageNumber]
+        : text + formatPageSeparator(template, pageNumber) + pageTexts[pageNumber], '');
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Pattern for the lines the separator template puts between pages, with any
+ * page number. Null when the template only holds whitespace and form feeds,
+ * which cannot be told apart from paragraph breaks.
+ */
+export const pageMarkerPattern = (template: string): RegExp | null => {
+  const marker = template.replace(/\f/g, '').trim();
+  return marker ? new RegExp(`^\\s*${marker.split('{page}').map(escapeRegex).join('\\d+')}\\s*$`, 'gm') : null;
+};
@@ -0,0 +1,39 @@
+// Map document model coordinates back to PDF user space for pdf-lib
+import type { PDFPage } from 'pdf-lib';
+
+export type Matrix = [number, number, number, number, number, number];
+
+/**
+ * The viewport transform pdf.js uses at scale 1, so model coordinates can be
+ * mapped back to PDF user space
+ */
+const viewportTransform = ([x0, y0, x1, y1]: number[], rotation: number): Matrix => {
+  const [a, b, c, d] = ({
+    0: [1, 0, 0, -1],
+    90: [0, 1, 1, 0],
+    180: [-1, 0, 0, 1],
+    270: [0, -1, -1, 0],
+  } as Record<number, number[]>)[rotation];
+  const centerX = (x0 + x1) / 2;
+  const centerY = (y0 + y1) / 2;
+  const offsetX = a === 0 ? Math.abs(centerY - y0) : Math.abs(centerX - x0);
+  const offsetY = a === 0 ? Math.abs(centerX - x0) : Math.abs(centerY - y0);
+  return [a, b, c, d, offsetX - a * centerX - c * centerY, offsetY - b * centerX - d * centerY];
+};
+
+/**
+ * Transform from PDF user space to model coordinates for a page, based on its
+ * crop box and /Rotate like pdf.js
+ */
+export const pageTransform = (page: PDFPage): Matrix => {
+  const { x, y, width, height } = page.getCropBox();
+  // pdf.js ignores rotations that are not a multiple of 90
+  const angle = page.getRotation().angle;
+  const rotation = angle % 90 === 0 ? ((angle % 360) + 360) % 360 : 0;
+  return viewportTransform([x, y, x + width, y + height], rotation);
+};
+
+export const toPdfPoint = ([a, b, c, d, e, f]: Matrix, x: number, y: number) => {
+  const det = a * d - b * c;
+  return { x: (d * (x - e) - c * (y - f)) / det, y: (a * (y - f) - b * (x - e)) / det };
+};
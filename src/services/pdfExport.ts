@@ -0,0 +1,103 @@
+// Re-export text as a paginated PDF with an embedded Unicode font
+import { jsPDF } from 'jspdf';
+import { loadUnicodeFont } from '@/services/unicodeFont';
+
+export type PdfPageSize = 'a4' | 'letter' | 'legal';
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize;
+  /** Margin on all sides, in millimetres */
+  margin: number;
+  /** Body font size, in points */
+  fontSize: number;
+  /** Source file name at the top of each page */
+  header: boolean;
+  /** "Page n of N" at the bottom of each page */
+  pageNumbers: boolean;
+}
+
+export const pdfPageSizes: { id: PdfPageSize; label: string }[] = [
+  { id: 'a4', label: 'A4' },
+  { id: 'letter', label: 'US Letter' },
+  { id: 'legal', label: 'US Legal' },
+];
+
+export const DEFAULT_PDF_EXPORT_OPTIONS: PdfExportOptions = {
+  pageSize: 'a4',
+  margin: 20,
+  fontSize: 11,
+  header: true,
+  pageNumbers: true,
+};
+
+const FONT_NAME = 'DejaVuSans';
+const LINE_HEIGHT = 1.35;
+const HEADER_FONT_SIZE = 8;
+const POINTS_TO_MM = 25.4 / 72;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Convert in chunks; spreading the whole array would overflow the call stack
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Lay the text out over as many pages as it needs. Form feeds (the form-feed
+ * page separator) start a new page; headers and footers are added last so
+ * the page count is known.
+ */
+export const textToPdf = async (text: string, options: PdfExportOptions, sourceName?: string): Promise<Blob> => {
+  const { pageSize, margin, fontSize, header, pageNumbers } = options;
+  const doc = new jsPDF({ unit: 'mm', format: pageSize });
+  doc.addFileToVFS(`${FONT_NAME}.ttf`, toBase64(await loadUnicodeFont()));
+  doc.addFont(`${FONT_NAME}.ttf`, FONT_NAME, 'normal');
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(fontSize);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - margin * 2;
+  const lineHeight = fontSize * LINE_HEIGHT * POINTS_TO_MM;
+  const bottom = pageHeight - margin;
+
+  let y = margin;
+  const newPage = () => {
+    doc.addPage();
+    y = margin;
+  };
+
+  text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\f').forEach((pageText, pageIndex) => {
+    if (pageIndex > 0) newPage();
+    pageText.split('\n').forEach((paragraph) => {
+      // Empty lines still take up a line, so blank lines between paragraphs survive
+      const lines: string[] = paragraph ? doc.splitTextToSize(paragraph, textWidth) : [''];
+      lines.forEach((line) => {
+        if (y + lineHeight > bottom) newPage();
+        doc.text(line, margin, y, { baseline: 'top' });
+        y += lineHeight;
+      });
+    });
+  });
+
+  if (header || pageNumbers) {
+    const pageCount = doc.getNumberOfPages();
+    doc.setFontSize(HEADER_FONT_SIZE);
+    doc.setTextColor(120);
+    // Headers and footers sit in the middle of the top and bottom margins
+    const offset = Math.max(margin / 2, HEADER_FONT_SIZE * POINTS_TO_MM);
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      if (header && sourceName) {
+        doc.text(doc.splitTextToSize(sourceName, textWidth)[0], margin, offset, { baseline: 'middle' });
+      }
+      if (pageNumbers) {
+        doc.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - offset, { align: 'center', baseline: 'middle' });
+      }
+    }
+  }
+
+  return doc.output('blob');
+};
@@ -0,0 +1,124 @@
+// Local, rules-based detection of personal data in extracted text
+export type PiiCategory = 'email' | 'phone' | 'iban' | 'nationalId' | 'url' | 'birthDate';
+
+export type PiiReplacement = 'mask' | 'pseudonymize';
+
+export interface PiiFinding {
+  category: PiiCategory;
+  /** Character range in the scanned text */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const piiCategories: { id: PiiCategory; label: string; token: string }[] = [
+  { id: 'email', label: 'Email', token: 'EMAIL' },
+  { id: 'phone', label: 'Phone', token: 'PHONE' },
+  { id: 'iban', label: 'IBAN', token: 'IBAN' },
+  { id: 'nationalId', label: 'National ID', token: 'ID' },
+  { id: 'url', label: 'URL', token: 'URL' },
+  { id: 'birthDate', label: 'Date of birth', token: 'DOB' },
+];
+
+interface PiiRule {
+  category: PiiCategory;
+  pattern: RegExp;
+  /** Capture group holding the value, when the pattern also matches a label */
+  group?: number;
+  validate?: (value: string) => boolean;
+}
+
+const MONTH = '(?:jan|feb|m[äa]r|apr|ma[iy]|jun|jul|aug|sep|o[ck]t|nov|de[cz])[a-zä]*\\.?';
+const DATE = `(?:\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}\\.? ${MONTH} \\d{4}|${MONTH} \\d{1,2},? \\d{4})`;
+
+// Letters of an IBAN are worth 10-35 in the mod-97 check
+const isValidIban = (value: string) => {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder === 1;
+};
+
+/**
+ * Phone numbers need a telltale shape: an international prefix, a leading
+ * zero or area code in brackets, or the North American 3-3-4 grouping.
+ * This keeps year ranges and dates out.
+ */
+const isPhoneNumber = (value: string) => {
+  const digits = value.replace(/\D/g, '').length;
+  if (digits < 7 || digits > 15) return false;
+  // Dates and date ranges such as 01/2015 - 12/2019
+  if (/^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/.test(value)) return false;
+  if (/^(?:\d{1,2}[./])?\d{2,4} *- *(?:\d{1,2}[./])?\d{2,4}$/.test(value)) return false;
+  return /^(?:\+|00|0|\()/.test(value) || /^\d{3}[\s.-]\d{3}[\s.-]\d{4}$/.test(value);
+};
+
+// Earlier rules win when findings overlap, so emails are not also reported as URLs
+const rules: PiiRule[] = [
+  { category: 'email', pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu },
+  { category: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, validate: isValidIban },
+  { category: 'birthDate', pattern: new RegExp(`\\b(?:born(?: on)?|date of birth|d\\.?o\\.?b\\.?|birthday|geboren(?: am)?|geb\\.)[:\\s]*(${DATE})`, 'giu'), group: 1 },
+  // US social security numbers and UK national insurance numbers
+  { category: 'nationalId', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  { category: 'nationalId', pattern: /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g },
+  // Other ID numbers are only recognized by their label
+  {
+    category: 'nationalId',
+    pattern: /\b(?:ssn|social security(?: number| no\.?)?|national id(?: number| no\.?)?|passport(?: number| no\.?)?|id card(?: number| no\.?)?|tax id|steuer-?id|personalausweis(?:nummer)?|ausweisnummer)[:\s#]*([A-Z0-9-]*\d[A-Z0-9-]{3,}(?: \d{2,}){0,4})/giu,
+    group: 1,
+  },
+  { category: 'url', pattern: /\b(?:https?:\/\/|www\.)[^\s<>"'()[\]]+[^\s<>"'()[\].,;:!?]/giu },
+  { category: 'url', pattern: /\b(?:linkedin\.com|github\.com|xing\.com|gitlab\.com|twitter\.com|x\.com)\/[^\s<>"'()[\]]*[^\s<>"'()[\].,;:!?]/giu },
+  { category: 'phone', pattern: /(?<![\w+])(?:\+|00)?\(?\d[\d ()./-]{5,}\d(?!\w)/g, validate: isPhoneNumber },
+];
+
+/**
+ * Personal data found in the text, in order and without overlaps
+ */
+export const detectPii = (text: string): PiiFinding[] => {
+  const findings: PiiFinding[] = [];
+  rules.forEach(({ category, pattern, group, validate }) => {
+    for (const match of text.matchAll(pattern)) {
+      const value = group ? match[group] : match[0];
+      if (!value || (validate && !validate(value.trim()))) continue;
+      const start = match.index + (group ? match[0].lastIndexOf(value) : 0);
+      const trimmed = value.trimEnd();
+      const end = start + trimmed.length;
+      if (findings.some((finding) => finding.start < end && start < finding.end)) continue;
+      findings.push({ category, start, end, text: trimmed });
+    }
+  });
+  return findings.sort((a, b) => a.start - b.start);
+};
+
+const maskValue = (value: string) => value.replace(/[\p{L}\p{N}]/gu, '*');
+
+/**
+ * Replace the findings in the text. Masking hides every letter and digit but
+ * keeps the shape; pseudonymizing swaps each distinct value for a numbered
+ * placeholder such as [EMAIL 1], so repeated values stay recognizable.
+ */
+export const replacePii = (text: string, findings: PiiFinding[], mode: PiiReplacement): string => {
+  const pseudonyms = new Map<string, string>();
+  const counts = new Map<PiiCategory, number>();
+  const pseudonymFor = ({ category, text: value }: PiiFinding) => {
+    const key = `${category}:${value.replace(/\s/g, '').toLowerCase()}`;
+    if (!pseudonyms.has(key)) {
+      const count = (counts.get(category) ?? 0) + 1;
+      counts.set(category, count);
+      pseudonyms.set(key, `[${piiCategories.find((entry) => entry.id === category).token} ${count}]`);
+    }
+    return pseudonyms.get(key);
+  };
+
+  let result = '';
+  let position = 0;
+  [...findings].sort((a, b) => a.start - b.start).forEach((finding) => {
+    if (finding.start < position) return;
+    result += text.slice(position, finding.start) + (mode === 'mask' ? maskValue(finding.text) : pseudonymFor(finding));
+    position = finding.end;
+  });
+  return result + text.slice(position);
+};
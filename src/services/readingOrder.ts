@@ -0,0 +1,173 @@
+// Reading order for pages set in several columns
+import {
+  buildBlocks,
+  unionBoxes,
+  type BoundingBox,
+  type PageModel,
+  type PositionedSpan,
+  type TextBlock,
+} from '@/services/documentModel';
+
+export interface ColumnRegion {
+  bbox: BoundingBox;
+  /** Position in reading order, starting at 1 */
+  order: number;
+  /** True for content such as titles that runs across all columns */
+  fullWidth: boolean;
+}
+
+export interface ColumnLayout {
+  /** x positions (viewport units) of the gutters between columns */
+  cuts: number[];
+  regions: ColumnRegion[];
+  /** Blocks of the page in column-by-column reading order */
+  blocks: TextBlock[];
+}
+
+// Narrowest vertical strip of whitespace that counts as a gutter
+const MIN_GUTTER = 10;
+// Share of spans allowed to cross a gutter (titles, full-width captions), but at least MIN_GUTTER_CROSSINGS
+const MAX_GUTTER_COVERAGE = 0.05;
+const MIN_GUTTER_CROSSINGS = 2;
+// Pages with fewer spans are not analysed
+const MIN_SPANS = 8;
+// Every column must be at least this share of the text width
+const MIN_COLUMN_SHARE = 0.2;
+// Columns of prose have long lines; narrower text is more likely a table
+const MIN_AVERAGE_LINE_LENGTH = 15;
+// Spans whose baselines are this close are on the same line
+const LINE_THRESHOLD = 4;
+
+// Page models are never mutated, so layouts can be cached per page object
+const layoutCache = new WeakMap<PageModel, ColumnLayout | null>();
+
+const positionedSpans = (page: PageModel): PositionedSpan[] =>
+  page.blocks.flatMap((block) =>
+    block.lines.flatMap((line) => line.spans.map((span) => ({ ...span, baseline: line.baseline }))));
+
+const spanCenter = (span: PositionedSpan) => span.bbox.x + span.bbox.width / 2;
+
+const crossesCut = (span: PositionedSpan, cuts: number[]) =>
+  cuts.some((cut) => span.bbox.x < cut && span.bbox.x + span.bbox.width > cut);
+
+const groupRows = (spans: PositionedSpan[]): PositionedSpan[][] => {
+  const rows: PositionedSpan[][] = [];
+  [...spans]
+    .sort((a, b) => a.baseline - b.baseline)
+    .forEach((span) => {
+      const row = rows[rows.length - 1];
+      if (row && Math.abs(row[0].baseline - span.baseline) <= LINE_THRESHOLD) {
+        row.push(span);
+      } else {
+        rows.push([span]);
+      }
+    });
+  return rows;
+};
+
+/**
+ * Whitespace gutter analysis: find vertical strips that (almost) no span covers
+ */
+const findCuts = (spans: PositionedSpan[]): number[] => {
+  const left = Math.floor(Math.min(...spans.map((span) => span.bbox.x)));
+  const right = Math.ceil(Math.max(...spans.map((span) => span.bbox.x + span.bbox.width)));
+  const coverage = new Array<number>(right - left + 1).fill(0);
+  spans.forEach((span) => {
+    const start = Math.floor(span.bbox.x) - left;
+    const end = Math.ceil(span.bbox.x + span.bbox.width) - left;
+    for (let x = start; x <= end; x++) coverage[x]++;
+  });
+
+  const limit = Math.max(MIN_GUTTER_CROSSINGS, spans.length * MAX_GUTTER_COVERAGE);
+  const cuts: number[] = [];
+  let gapStart = -1;
+  coverage.forEach((count, x) => {
+    if (count <= limit) {
+      if (gapStart < 0) gapStart = x;
+    } else if (gapStart >= 0) {
+      if (x - gapStart >= MIN_GUTTER) cuts.push(left + (gapStart + x) / 2);
+      gapStart = -1;
+    }
+  });
+  return cuts;
+};
+
+/**
+ * Columns must be wide and hold prose; otherwise the page is read as one column
+ */
+const isColumnLayout = (spans: PositionedSpan[], cuts: number[]) => {
+  const left = Math.min(...spans.map((span) => span.bbox.x));
+  const right = Math.max(...spans.map((span) => span.bbox.x + span.bbox.width));
+  const edges = [left, ...cuts, right];
+  return edges.slice(1).every((edge, index) => {
+    if (edge - edges[index] < (right - left) * MIN_COLUMN_SHARE) return false;
+    const columnSpans = spans.filter((span) =>
+      !crossesCut(span, cuts) && spanCenter(span) >= edges[index] && spanCenter(span) < edge);
+    const rows = groupRows(columnSpans);
+    const characters = columnSpans.reduce((sum, span) => sum + span.text.length, 0);
+    return rows.length > 0 && characters / rows.length >= MIN_AVERAGE_LINE_LENGTH;
+  });
+};
+
+/**
+ * Split the page into full-width bands and column bands, top to bottom, and
+ * read each column of a band before moving to the next one
+ */
+const findColumnLayout = (page: PageModel): ColumnLayout | null => {
+  const spans = positionedSpans(page);
+  if (spans.length < MIN_SPANS) return null;
+
+  const cuts = findCuts(spans);
+  if (!cuts.length || !isColumnLayout(spans, cuts)) return null;
+
+  // Consecutive rows either cross a gutter (full width) or do not (columns)
+  const sections: { fullWidth: boolean; spans: PositionedSpan[] }[] = [];
+  groupRows(spans).forEach((row) => {
+    const fullWidth = row.some((span) => crossesCut(span, cuts));
+    const last = sections[sections.length - 1];
+    if (last && last.fullWidth === fullWidth) {
+      last.spans.push(...row);
+    } else {
+      sections.push({ fullWidth, spans: [...row] });
+    }
+  });
+
+  const edges = [-Infinity, ...cuts, Infinity];
+  const regions: ColumnRegion[] = [];
+  const blocks: TextBlock[] = [];
+  const addRegion = (regionSpans: PositionedSpan[], fullWidth: boolean) => {
+    if (!regionSpans.length) return;
+    regions.push({ bbox: unionBoxes(regionSpans.map((span) => span.bbox)), order: regions.length + 1, fullWidth });
+    blocks.push(...buildBlocks(regionSpans, page.pageNumber));
+  };
+
+  sections.forEach((section) => {
+    if (section.fullWidth) {
+      addRegion(section.spans, true);
+      return;
+    }
+    edges.slice(1).forEach((edge, index) => {
+      addRegion(section.spans.filter((span) => spanCenter(span) >= edges[index] && spanCenter(span) < edge), false);
+    });
+  });
+
+  return { cuts, regions, blocks };
+};
+
+/**
+ * Column regions and reading order of a page, or null for single-column pages
+ */
+export const detectColumnLayout = (page: PageModel): ColumnLayout | null => {
+  if (!layoutCache.has(page)) {
+    layoutCache.set(page, findColumnLayout(page));
+  }
+  return layoutCache.get(page) ?? null;
+};
+
+/**
+ * The page with its blocks in column reading order, or unchanged for single-column pages
+ */
+export const applyColumnLayout = (page: PageModel): PageModel => {
+  const layout = detectColumnLayout(page);
+  return layout ? { ...page, blocks: layout.blocks } : page;
+};
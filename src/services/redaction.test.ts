@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildBlocks, pageToText, type DocumentModel, type PageModel } from '@/services/documentModel';
+import { applyColumnLayout } from '@/services/readingOrder';
+import { redactText, textInRect, type Redaction } from '@/services/redaction';
+
+// The PDF side of redaction needs a worker, the text side does not
+vi.mock('react-pdf', () => ({ pdfjs: {} }));
+
+const CHAR_WIDTH = 6;
+
+const span = (text: string, x: number, y: number) => ({
+  text,
+  bbox: { x, y, width: text.length * CHAR_WIDTH, height: 10 },
+  fontName: 'Helvetica',
+  fontFamily: 'sans-serif',
+  fontSize: 10,
+  pageNumber: 1,
+  itemIndex: 0,
+  baseline: y + 10,
+});
+
+const page = (spans: ReturnType<typeof span>[]): PageModel => ({
+  pageNumber: 1,
+  width: 600,
+  height: 800,
+  blocks: buildBlocks(spans, 1),
+});
+
+const redaction = (x: number, y: number, width: number): Redaction => ({
+  id: 'r1',
+  pageNumber: 1,
+  rect: { x, y, width, height: 10 },
+  text: '',
+});
+
+describe('redactText', () => {
+  it('blocks out the words under a redaction', () => {
+    const model: DocumentModel = { pages: [page([span('Name: Secret Person', 50, 100), span('Other line', 50, 120)])] };
+    const text = pageToText(model.pages[0]);
+    // Over "Secret" only
+    const result = redactText(text, model, [redaction(50 + 6 * CHAR_WIDTH, 100, 6 * CHAR_WIDTH)]);
+    expect(result).toBe(text.replace('Secret', '██████'));
+  });
+
+  it('follows the column order of the panel text', () => {
+    const rows = [0, 1, 2, 3, 4, 5];
+    const left = rows.map((row) => span(`Left column line ${row} text`, 50, 100 + row * 20));
+    const right = rows.map((row) =>
+      span(row === 2 ? 'Applicant Secret Name here' : `Right column line ${row} text`, 320, 100 + row * 20));
+    const model: DocumentModel = { pages: [page([...left, ...right])] };
+    const text = pageToText(applyColumnLayout(model.pages[0]));
+    expect(text.indexOf('Left column line 5')).toBeLessThan(text.indexOf('Right column line 0'));
+
+    // Over "Secret Name"
+    const result = redactText(text, model, [redaction(320 + 10 * CHAR_WIDTH, 140, 11 * CHAR_WIDTH)], { columnLayout: true });
+    expect(result).toBe(text.replace('Secret Name', '██████ ████'));
+  });
+
+  it('treats a word the redaction touches the same way as textInRect', () => {
+    const model: DocumentModel = { pages: [page([span('Keep Touched', 50, 100)])] };
+    // Covers one pixel of "Touched"
+    const rect = redaction(50 + 5 * CHAR_WIDTH, 100, 1);
+    expect(textInRect(model.pages[0], rect.rect)).toBe('Touched');
+    expect(redactText(pageToText(model.pages[0]), model, [rect])).toBe('Keep ███████');
+  });
+});
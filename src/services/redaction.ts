@@ -0,0 +1,203 @@
+// Redaction: remove text and images under marked areas from the PDF and the extracted text
+import { pdfjs } from 'react-pdf';
+import { PDFDocument, type PDFFont, type PDFPage } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { spanTextBox, type BoundingBox, type DocumentModel, type PageModel, type TextLine } from '@/services/documentModel';
+import { pageTransform } from '@/services/pdfCoordinates';
+import { applyColumnLayout } from '@/services/readingOrder';
+import type { SearchMatch } from '@/services/search';
+import { drawInvisibleLine } from '@/services/textLayerExport';
+import { loadUnicodeFont } from '@/services/unicodeFont';
+import { alignWords } from '@/services/wordAlignment';
+
+export interface Redaction {
+  id: string;
+  pageNumber: number;
+  /** Area to remove, in model coordinates */
+  rect: BoundingBox;
+  /** Extracted text under the area when it was marked */
+  text: string;
+}
+
+interface PageWord {
+  text: string;
+  bbox: BoundingBox;
+  line: TextLine;
+}
+
+// Render scale of redacted pages, about 150 DPI
+const RENDER_SCALE = 2;
+const JPEG_QUALITY = 0.92;
+export const REDACTION_CHARACTER = '█';
+
+/**
+ * Words of a page in reading order, with their estimated boxes. The order
+ * matches the lines' text, so words can be aligned with the extracted text.
+ */
+const pageWords = (page: PageModel): PageWord[] =>
+  page.blocks.flatMap((block) => block.lines.flatMap((line) => line.spans.flatMap((span) =>
+    Array.from(span.text.matchAll(/\S+/g), (match) => ({
+      text: match[0],
+      bbox: spanTextBox(span, match.index, match.index + match[0].length),
+      line,
+    })))));
+
+const overlapArea = (a: BoundingBox, b: BoundingBox) =>
+  Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)) *
+  Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+
+// Any word a redaction touches is redacted, in the text and in the PDF alike,
+// so nothing partly under a black box stays readable
+const isRedacted = (word: PageWord, rects: BoundingBox[]) =>
+  rects.some((rect) => overlapArea(word.bbox, rect) > 0);
+
+const pageRects = (redactions: Redaction[], pageNumber: number) =>
+  redactions.filter((redaction) => redaction.pageNumber === pageNumber).map((redaction) => redaction.rect);
+
+/**
+ * Extracted text under an area of a page
+ */
+export const textInRect = (page: PageModel | undefined, rect: BoundingBox): string =>
+  page ? pageWords(page).filter((word) => isRedacted(word, [rect])).map((word) => word.text).join(' ') : '';
+
+/**
+ * One redaction per span covered by each search match
+ */
+export const redactionsFromMatches = (matches: SearchMatch[]): Redaction[] =>
+  matches.flatMap((match) => match.boxes.map((rect) => ({
+    id: crypto.randomUUID(),
+    pageNumber: match.pageNumber,
+    rect,
+    text: match.text,
+  })));
+
+/**
+ * Replace the words of `text` that stand for redacted words of the document
+ * with blocks. Words the user changed or merged are redacted when any word
+ * they replace is. With `columnLayout` the text is read column by column, and
+ * the document's words are lined up with it in that order.
+ */
+export const redactText = (
+  text: string,
+  model: DocumentModel,
+  redactions: Redaction[],
+  { columnLayout = false }: { columnLayout?: boolean } = {}
+): string => {
+  const words = model.pages.flatMap((page) => {
+    const rects = pageRects(redactions, page.pageNumber);
+    return pageWords(columnLayout ? applyColumnLayout(page) : page).map((word) => ({ text: word.text, redacted: isRedacted(word, rects) }));
+  });
+  if (!words.some((word) => word.redacted)) return text;
+
+  const corrected = Array.from(text.matchAll(/\S+/g));
+  const redactedWords = new Set<number>();
+  alignWords(words.map((word) => word.text), corrected.map((match) => match[0])).forEach(({ original, corrected: [start, end] }) => {
+    if (!words.slice(original[0], original[1]).some((word) => word.redacted)) return;
+    for (let index = start; index < end; index++) redactedWords.add(index);
+  });
+
+  let result = '';
+  let position = 0;
+  corrected.forEach((match, index) => {
+    if (!redactedWords.has(index)) return;
+    result += text.slice(position, match.index) + REDACTION_CHARACTER.repeat(match[0].length);
+    position = match.index + match[0].length;
+  });
+  return result + text.slice(position);
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        blob.arrayBuffer().then(resolve, reject);
+      } else {
+        reject(new Error('Could not encode the page image'));
+      }
+    }, 'image/jpeg', JPEG_QUALITY);
+  });
+
+/**
+ * Runs of words outside the redactions as invisible text, so the rest of
+ * the page stays searchable
+ */
+const drawRemainingText = (page: PDFPage, font: PDFFont, pageModel: PageModel, rects: BoundingBox[]) => {
+  const fontKey = page.node.newFontDictionary(font.name, font.ref);
+  const transform = pageTransform(page);
+  let run: PageWord[] = [];
+  const flush = () => {
+    if (!run.length) return;
+    const first = run[0].bbox;
+    const last = run[run.length - 1].bbox;
+    const line = { ...run[0].line, bbox: { ...run[0].line.bbox, x: first.x, width: last.x + last.width - first.x } };
+    drawInvisibleLine(page, font, fontKey, transform, line, run.map((word) => word.text).join(' '));
+    run = [];
+  };
+
+  pageWords(pageModel).forEach((word) => {
+    if (run.length && run[0].line !== word.line) flush();
+    if (isRedacted(word, rects)) {
+      flush();
+    } else {
+      run.push(word);
+    }
+  });
+  flush();
+};
+
+/**
+ * A copy of the PDF with the redacted areas removed. Pages with redactions are
+ * replaced by an image of the page with the areas blacked out, so no text,
+ * vector or image content under them survives; the text outside them is laid
+ * back over the image invisibly. Other pages are copied unchanged. The new
+ * file is built from scratch, so nothing of the replaced pages is carried over.
+ */
+export const redactPdf = async (file: File, model: DocumentModel, redactions: Redaction[]): Promise<Uint8Array> => {
+  const data = await file.arrayBuffer();
+  const source = await PDFDocument.load(data, { ignoreEncryption: true });
+  const output = await PDFDocument.create();
+  output.registerFontkit(fontkit);
+  // pdf.js takes ownership of the buffer it is given
+  const renderer = await pdfjs.getDocument({ data: data.slice(0) }).promise;
+  let font: PDFFont | null = null;
+
+  try {
+    for (let index = 0; index < source.getPageCount(); index++) {
+      const pageNumber = index + 1;
+      const rects = pageRects(redactions, pageNumber);
+      if (!rects.length) {
+        const [copy] = await output.copyPages(source, [index]);
+        output.addPage(copy);
+        continue;
+      }
+
+      const page = await renderer.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext('2d');
+      await page.render({ canvasContext: context, viewport }).promise;
+      context.fillStyle = '#000';
+      rects.forEach(({ x, y, width, height }) => {
+        context.fillRect(x * RENDER_SCALE, y * RENDER_SCALE, width * RENDER_SCALE, height * RENDER_SCALE);
+      });
+
+      const image = await output.embedJpg(await canvasToJpeg(canvas));
+      const { width, height } = page.getViewport({ scale: 1 });
+      const redactedPage = output.addPage([width, height]);
+      redactedPage.drawImage(image, { x: 0, y: 0, width, height });
+
+      const pageModel = model.pages.find((candidate) => candidate.pageNumber === pageNumber);
+      if (pageModel) {
+        font ??= await output.embedFont(await loadUnicodeFont(), { subset: true });
+        drawRemainingText(redactedPage, font, pageModel, rects);
+      }
+      page.cleanup();
+    }
+  } finally {
+    renderer.destroy();
+  }
+
+  return output.save();
+};
@@ -0,0 +1,119 @@
+// Full-text search over the structured document model
+import { spanTextBox, type BoundingBox, type DocumentModel, type PageModel, type TextSpan } from '@/services/documentModel';
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+/** Part of a match that falls inside one text layer item */
+export interface ItemRange {
+  itemIndex: number;
+  start: number;
+  end: number;
+}
+
+export interface SearchMatch {
+  pageNumber: number;
+  text: string;
+  ranges: ItemRange[];
+  /** Where the match is on the page, one box per span it covers */
+  boxes: BoundingBox[];
+}
+
+interface SpanOffset extends ItemRange {
+  span: TextSpan;
+  /** Offset of the span inside the page text */
+  offset: number;
+}
+
+// Stop runaway patterns such as /a*/ from producing a match per character
+const MAX_MATCHES = 5000;
+
+export const defaultSearchOptions: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build the search expression; throws a SyntaxError for invalid regex input
+ */
+export const buildSearchRegex = (query: string, { caseSensitive, wholeWord, regex }: SearchOptions): RegExp => {
+  const pattern = regex ? query : escapeRegExp(query);
+  return new RegExp(wholeWord ? `\\b(?:${pattern})\\b` : pattern, caseSensitive ? 'gu' : 'giu');
+};
+
+/**
+ * Page text in reading order together with where each text layer item sits in it
+ */
+const indexPage = (page: PageModel) => {
+  let text = '';
+  const spans: SpanOffset[] = [];
+  page.blocks.forEach((block) => {
+    block.lines.forEach((line) => {
+      if (text) text += '\n';
+      line.spans.forEach((span, index) => {
+        if (index > 0) text += ' ';
+        spans.push({ span, itemIndex: span.itemIndex, start: 0, end: span.text.length, offset: text.length });
+        text += span.text;
+      });
+    });
+  });
+  return { text, spans };
+};
+
+export const searchDocument = (model: DocumentModel, query: string, options: SearchOptions): SearchMatch[] => {
+  if (!query) return [];
+  const regex = buildSearchRegex(query, options);
+  const matches: SearchMatch[] = [];
+
+  for (const page of model.pages) {
+    const { text, spans } = indexPage(page);
+    for (const match of text.matchAll(regex)) {
+      if (!match[0]) continue;
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const ranges = spans
+        .filter((span) => span.offset < end && span.offset + span.end > start)
+        .map((span) => ({
+          span: span.span,
+          itemIndex: span.itemIndex,
+          start: Math.max(0, start - span.offset),
+          end: Math.min(span.end, end - span.offset),
+        }));
+      matches.push({
+        pageNumber: page.pageNumber,
+        text: match[0],
+        ranges: ranges.map(({ itemIndex, start, end }) => ({ itemIndex, start, end })),
+        boxes: ranges.map((range) => spanTextBox(range.span, range.start, range.end)),
+      });
+      if (matches.length >= MAX_MATCHES) return matches;
+    }
+  }
+  return matches;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * HTML for one text layer item with the given ranges wrapped in <mark> elements
+ */
+export const highlightItem = (str: string, ranges: { start: number; end: number; active: boolean }[]): string => {
+  let html = '';
+  let position = 0;
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ start, end, active }) => {
+      if (start < position) return;
+      html += escapeHtml(str.slice(position, start));
+      const className = active ? 'search-highlight search-highlight-active' : 'search-highlight';
+      html += `<mark class="${className}">${escapeHtml(str.slice(start, end))}</mark>`;
+      position = end;
+    });
+  return html + escapeHtml(str.slice(position));
+};
@@ -0,0 +1,189 @@
+// Detect tables in the document model from the horizontal layout of text items
+import { unionBoxes, type BoundingBox, type DocumentModel, type PageModel, type TextLine, type TextSpan } from '@/services/documentModel';
+
+export interface DetectedTable {
+  id: string;
+  pageNumber: number;
+  bbox: BoundingBox;
+  /** Cell text by row; the first row is usually the header */
+  rows: string[][];
+  columnCount: number;
+}
+
+interface Cell {
+  text: string;
+  left: number;
+  right: number;
+}
+
+interface Row {
+  line: TextLine;
+  cells: Cell[];
+}
+
+interface ColumnRange {
+  left: number;
+  right: number;
+}
+
+// A horizontal gap wider than this many font sizes separates two cells
+const CELL_GAP = 1.2;
+// Rows further apart than this many font sizes end the table
+const ROW_GAP = 2.5;
+// Minimum number of rows with several cells for a run of lines to count as a table
+const MIN_ROWS = 2;
+// Wrapped cell text rarely runs longer than this; more single-cell lines end the table
+const MAX_WRAPPED_LINES = 2;
+// Cells of real tables are short; longer median cells are prose set in columns
+const MAX_MEDIAN_CELL_LENGTH = 40;
+// Column ranges closer than this (viewport units) are merged
+const COLUMN_TOLERANCE = 2;
+
+const lineFontSize = (line: TextLine) =>
+  line.spans.reduce((sum, span) => sum + span.fontSize, 0) / Math.max(1, line.spans.length);
+
+const spansToCell = (spans: TextSpan[]): Cell => ({
+  text: spans.map((span) => span.text.trim()).filter(Boolean).join(' '),
+  left: Math.min(...spans.map((span) => span.bbox.x)),
+  right: Math.max(...spans.map((span) => span.bbox.x + span.bbox.width)),
+});
+
+/**
+ * Split a line into cells wherever the gap between two spans is wider than a word space
+ */
+const splitCells = (line: TextLine): Cell[] => {
+  const minGap = lineFontSize(line) * CELL_GAP;
+  const groups: TextSpan[][] = [];
+  [...line.spans]
+    .sort((a, b) => a.bbox.x - b.bbox.x)
+    .forEach((span) => {
+      const group = groups[groups.length - 1];
+      const previous = group?.[group.length - 1];
+      if (previous && span.bbox.x - (previous.bbox.x + previous.bbox.width) < minGap) {
+        group.push(span);
+      } else {
+        groups.push([span]);
+      }
+    });
+  return groups.map(spansToCell).filter((cell) => cell.text);
+};
+
+/**
+ * Column ranges from the rows that have the most cells, so a header cell
+ * spanning several columns does not merge them
+ */
+const findColumns = (rows: Row[]): ColumnRange[] => {
+  const maxCells = Math.max(...rows.map((row) => row.cells.length));
+  const ranges = rows
+    .filter((row) => row.cells.length === maxCells)
+    .flatMap((row) => row.cells.map(({ left, right }) => ({ left, right })))
+    .sort((a, b) => a.left - b.left);
+
+  return ranges.reduce<ColumnRange[]>((columns, range) => {
+    const last = columns[columns.length - 1];
+    if (last && range.left <= last.right + COLUMN_TOLERANCE) {
+      last.right = Math.max(last.right, range.right);
+    } else {
+      columns.push({ ...range });
+    }
+    return columns;
+  }, []);
+};
+
+const columnForCell = (cell: Cell, columns: ColumnRange[]): number => {
+  let best = 0;
+  let bestScore = -Infinity;
+  columns.forEach((column, index) => {
+    const overlap = Math.min(cell.right, column.right) - Math.max(cell.left, column.left);
+    // Without overlap, prefer the closest column (negative distance)
+    const score = overlap > 0
+      ? overlap
+      : -Math.abs((cell.left + cell.right) / 2 - (column.left + column.right) / 2);
+    if (score > bestScore) {
+      bestScore = score;
+      best = index;
+    }
+  });
+  return best;
+};
+
+const trailingSingleCellRows = (run: Row[]) => {
+  let count = 0;
+  while (count < run.length && run[run.length - 1 - count].cells.length < 2) count++;
+  return count;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+const buildTable = (run: Row[], pageNumber: number, index: number): DetectedTable | null => {
+  const tableRows = run.filter((row) => row.cells.length > 1);
+  if (tableRows.length < MIN_ROWS) return null;
+
+  const cells = tableRows.flatMap((row) => row.cells);
+  if (median(cells.map((cell) => cell.text.length)) > MAX_MEDIAN_CELL_LENGTH) return null;
+
+  const columns = findColumns(tableRows);
+  if (columns.length < 2) return null;
+
+  const rows: string[][] = [];
+  run.forEach((row) => {
+    // Single-cell lines inside a table are wrapped text of the row above
+    let target = rows[rows.length - 1];
+    if (row.cells.length > 1 || !target) {
+      target = columns.map(() => '');
+      rows.push(target);
+    }
+    row.cells.forEach((cell) => {
+      const column = columnForCell(cell, columns);
+      target[column] = target[column] ? `${target[column]} ${cell.text}` : cell.text;
+    });
+  });
+
+  return {
+    id: `table-${pageNumber}-${index}`,
+    pageNumber,
+    bbox: unionBoxes(run.map((row) => row.line.bbox)),
+    rows,
+    columnCount: columns.length,
+  };
+};
+
+export const detectPageTables = (page: PageModel): DetectedTable[] => {
+  const lines = page.blocks
+    .flatMap((block) => block.lines)
+    .sort((a, b) => a.baseline - b.baseline);
+
+  const runs: Row[][] = [];
+  let run: Row[] = [];
+  const closeRun = () => {
+    // Text right after a table is not part of it
+    run = run.slice(0, run.length - trailingSingleCellRows(run));
+    if (run.length) runs.push(run);
+    run = [];
+  };
+
+  lines.forEach((line) => {
+    const row = { line, cells: splitCells(line) };
+    const previous = run[run.length - 1];
+    const isNear = previous && line.baseline - previous.line.baseline <= lineFontSize(line) * ROW_GAP;
+    if (row.cells.length > 1) {
+      if (!isNear) closeRun();
+      run.push(row);
+    } else if (isNear && trailingSingleCellRows(run) < MAX_WRAPPED_LINES) {
+      run.push(row);
+    } else {
+      closeRun();
+    }
+  });
+  closeRun();
+
+  return runs
+    .map((rows, index) => buildTable(rows, page.pageNumber, index))
+    .filter((table): table is DetectedTable => table !== null);
+};
+
+export const detectTables = (model: DocumentModel): DetectedTable[] =>
+  model.pages.flatMap(detectPageTables);
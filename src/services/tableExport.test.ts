@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { tableToXlsx } from '@/services/tableExport';
+
+// XML of the cell in the second row, the first one after the header
+const bodyCell = async (value: string) => {
+  const files = unzipSync(new Uint8Array(await tableToXlsx([['Header'], [value]]).arrayBuffer()));
+  return strFromU8(files['xl/worksheets/sheet1.xml']).match(/<c r="A2".*?<\/c>/)[0];
+};
+
+describe('tableToXlsx', () => {
+  it('writes amounts with trailing decimal zeros as numbers', async () => {
+    expect(await bodyCell('12.50')).toBe('<c r="A2"><v>12.5</v></c>');
+    expect(await bodyCell('1,250.00')).toBe('<c r="A2"><v>1250</v></c>');
+    expect(await bodyCell('-3')).toBe('<c r="A2"><v>-3</v></c>');
+    expect(await bodyCell('0.25')).toBe('<c r="A2"><v>0.25</v></c>');
+  });
+
+  it('keeps codes with a leading zero as text', async () => {
+    expect(await bodyCell('007')).toContain('t="inlineStr"><is><t xml:space="preserve">007</t>');
+  });
+
+  it('keeps identifiers longer than a spreadsheet stores exactly as text', async () => {
+    expect(await bodyCell('1234567890123456')).toContain('<t xml:space="preserve">1234567890123456</t>');
+    expect(await bodyCell('123456789012345')).toBe('<c r="A2"><v>123456789012345</v></c>');
+  });
+
+  it('keeps the header row as text', async () => {
+    const files = unzipSync(new Uint8Array(await tableToXlsx([['2024'], ['1']]).arrayBuffer()));
+    expect(strFromU8(files['xl/worksheets/sheet1.xml'])).toContain('<c r="A1" s="1" t="inlineStr">');
+  });
+});
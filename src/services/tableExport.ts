@@ -0,0 +1,115 @@
+// Export detected tables as CSV or XLSX
+import { strToU8, zipSync } from 'fflate';
+import { XML_DECLARATION, escapeXml } from '@/services/officeXml';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Plain numbers, optionally with thousands separators, are written as numeric cells
+const NUMBER_REGEX = /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+// Spreadsheets keep this many significant digits; longer numbers are identifiers
+const MAX_SIGNIFICANT_DIGITS = 15;
+
+/**
+ * The cell's value as a number, or null for numbers that are really codes:
+ * a leading zero ("007"), or more digits than a spreadsheet stores exactly
+ * (account or invoice numbers)
+ */
+const numericValue = (value: string): number | null => {
+  if (!NUMBER_REGEX.test(value)) return null;
+  const plain = value.replace(/,/g, '').replace(/^-/, '');
+  if (/^0\d/.test(plain)) return null;
+  if (plain.replace(/\D/g, '').replace(/^0+/, '').length > MAX_SIGNIFICANT_DIGITS) return null;
+  return Number(value.replace(/,/g, ''));
+};
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * RFC 4180 CSV with a byte order mark so spreadsheet apps detect UTF-8
+ */
+export const tableToCsv = (rows: string[][]): Blob =>
+  new Blob(['\ufeff' + rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n'], {
+    type: 'text/csv;charset=utf-8',
+  });
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const cellXml = (value: string, rowIndex: number, columnIndex: number) => {
+  const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+  // Style 1 is the bold header row
+  const style = rowIndex === 0 ? ' s="1"' : '';
+  const number = rowIndex > 0 ? numericValue(value) : null;
+  if (number !== null) {
+    return `<c r="${ref}"${style}><v>${number}</v></c>`;
+  }
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const sheetXml = (rows: string[][]) =>
+  XML_DECLARATION +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+  rows
+    .map((row, rowIndex) =>
+      `<row r="${rowIndex + 1}">${row.map((value, columnIndex) => (value ? cellXml(value, rowIndex, columnIndex) : '')).join('')}</row>`)
+    .join('') +
+  '</sheetData></worksheet>';
+
+const STYLES_XML =
+  XML_DECLARATION +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * Minimal single-sheet workbook; the first row is treated as the header
+ */
+export const tableToXlsx = (rows: string[][], sheetName = 'Table'): Blob => {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Table');
+  const files = {
+    '[Content_Types].xml': strToU8(
+      XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      XML_DECLARATION +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/styles.xml': strToU8(STYLES_XML),
+    'xl/worksheets/sheet1.xml': strToU8(sheetXml(rows)),
+  };
+  return new Blob([zipSync(files)], { type: XLSX_MIME_TYPE });
+};
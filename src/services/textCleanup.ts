@@ -0,0 +1,280 @@
+// Text cleanup rule engine shared by page extraction and the formatter
+
+/**
+ * Shape of the text a rule receives or leaves behind.
+ * - `layout`: line breaks still mirror the lines of the PDF page
+ * - `flow`: line breaks were collapsed; only breaks added by rules remain
+ */
+export type TextShape = 'layout' | 'flow';
+
+export type CleanupCategory = 'general' | 'resume';
+
+/** Named rule sequences used by the app */
+export type CleanupPipeline = 'page' | 'format';
+
+export interface CleanupRule {
+  id: string;
+  name: string;
+  description: string;
+  category: CleanupCategory;
+  /** Shapes the rule can safely run on */
+  input: TextShape[];
+  /** Shape after the rule ran; omitted when the rule keeps its input shape */
+  output?: TextShape;
+  apply: (text: string) => string;
+}
+
+export interface CleanupOptions {
+  /** Rule ids to leave out of the pipeline */
+  disabledRules?: string[];
+  /** Shape of the incoming text, defaults to `layout` */
+  shape?: TextShape;
+}
+
+export interface CleanupResult {
+  text: string;
+  shape: TextShape;
+  applied: string[];
+  skipped: { id: string; reason: 'disabled' | 'shape' }[];
+}
+
+const EMOJI_REGEX = /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F700}-\u{1F77F}\u{1F780}-\u{1F7FF}\u{1F800}-\u{1F8FF}\u{1F900}-\u{1F9FF}\u{1FA00}-\u{1FA6F}\u{1FA70}-\u{1FAFF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu;
+
+// Bullets, geometric shapes, stars and card suits used as list markers
+export const BULLET_REGEX = /[\u2022\u2043\u2219\u25a0-\u25ff\u2605\u2606\u260e\u2616\u2617\u2619-\u261f\u2660-\u266f]/g;
+
+const DATE_RANGE_REGEX = /[ \t]*(?<![\d/])(\d{1,2}\/\d{4}|\d{4})\s*[-–—]\s*(\d{1,2}\/\d{4}|\d{4}|Present|Current)(?![\d/])[ \t]*/gi;
+
+const JOB_TITLE_REGEX = /^(.{0,50})(Project Manager|Head Of|Director|Manager|Engineer|Developer|Designer|Consultant|Analyst|Specialist)/gim;
+
+export const SECTION_HEADERS = [
+  'Experience', 'Education', 'Skills', 'Languages', 'Projects', 'Certifications',
+  'References', 'Responsibilities', 'Achievements', 'Key responsibilities', 'Work Experience',
+  'Professional Experience', 'Technical Skills', 'Soft Skills', 'Publications', 'Awards',
+  'Volunteer Work', 'Interests', 'Hobbies', 'Contact Information', 'Summary', 'Objective',
+  'Personal Statement', 'Professional Summary', 'Career Highlights'
+];
+
+// Longest headers first so "Work Experience" wins over "Experience"
+const sectionHeaderPattern = [...SECTION_HEADERS]
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// A header alone on its line, e.g. "EDUCATION" or "Skills:"
+const HEADER_LINE_REGEX = new RegExp(`(^|\\n)[ \\t]*(${sectionHeaderPattern})[ \\t]*:?[ \\t]*(?=\\n|$)`, 'gi');
+
+// A header followed by a colon inside running text, e.g. "... Skills: React"
+const HEADER_INLINE_REGEX = new RegExp(`(^|\\s)(${sectionHeaderPattern})[ \\t]*:[ \\t]*(?=\\S)`, 'g');
+
+/**
+ * Join letters spaced out by the PDF producer (e.g. "A d m i n" → "Admin").
+ * Runs shorter than three letters are kept so "I am a" stays untouched.
+ */
+export const fixSpacedLetters = (text: string): string => {
+  return text.replace(/\b[a-zA-Z](?: [a-zA-Z]){2,}\b/g, (match) => match.replace(/ /g, ''));
+};
+
+export const cleanupRules: CleanupRule[] = [
+  {
+    id: 'strip-emoji',
+    name: 'Remove emojis',
+    description: 'Deletes emoji and pictographic symbols.',
+    category: 'general',
+    input: ['layout', 'flow'],
+    apply: (text) => text.replace(EMOJI_REGEX, ''),
+  },
+  {
+    id: 'strip-page-break-markers',
+    name: 'Remove page break markers',
+    description: 'Deletes "--- Page Break ---" markers left by other tools.',
+    category: 'general',
+    input: ['layout', 'flow'],
+    apply: (text) => text.replace(/---\s*Page\s*Break\s*---/gi, ''),
+  },
+  {
+    id: 'strip-bullets',
+    name: 'Remove bullet symbols',
+    description: 'Deletes bullet glyphs and dash list markers but keeps the item text.',
+    category: 'general',
+    input: ['layout', 'flow'],
+    apply: (text) => text
+      .replace(BULLET_REGEX, '')
+      .replace(/(^|\n)[ \t]*[-–][ \t]+/g, '$1'),
+  },
+  {
+    id: 'strip-vertical-bars',
+    name: 'Remove vertical bars',
+    description: 'Deletes "|" separators often used between contact details.',
+    category: 'general',
+    input: ['layout', 'flow'],
+    apply: (text) => text.replace(/\|/g, ''),
+  },
+  {
+    id: 'join-hyphenated-lines',
+    name: 'Join hyphenated words',
+    description: 'Rejoins words split with a hyphen at the end of a line.',
+    category: 'general',
+    input: ['layout'],
+    apply: (text) => text.replace(/([A-Za-z])-[ \t]*\n[ \t]*([a-z])/g, '$1$2'),
+  },
+  {
+    id: 'fix-spaced-letters',
+    name: 'Fix spaced out letters',
+    description: 'Joins letters separated by spaces, e.g. "A d m i n" → "Admin".',
+    category: 'general',
+    input: ['layout', 'flow'],
+    apply: fixSpacedLetters,
+  },
+  {
+    id: 'normalize-whitespace',
+    name: 'Normalize whitespace',
+    description: 'Collapses runs of spaces and tabs and trims every line.',
+    category: 'general',
+    input: ['layout', 'flow'],
+    apply: (text) => text
+      .replace(/\r/g, '')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ ?\n ?/g, '\n'),
+  },
+  {
+    id: 'join-broken-lines',
+    name: 'Join broken lines',
+    description: 'Joins lines that break in the middle of a sentence.',
+    category: 'general',
+    input: ['layout'],
+    apply: (text) => text.replace(/([a-z,])\n([a-z])/g, '$1 $2'),
+  },
+  {
+    id: 'collapse-whitespace',
+    name: 'Collapse line breaks',
+    description: 'Turns the text into one flowing paragraph before re-splitting it.',
+    category: 'general',
+    input: ['layout', 'flow'],
+    output: 'flow',
+    apply: (text) => text.replace(/\s+/g, ' ').trim(),
+  },
+  {
+    id: 'sentence-paragraphs',
+    name: 'Paragraph per sentence',
+    description: 'Starts a new paragraph after each sentence.',
+    category: 'general',
+    input: ['layout', 'flow'],
+    apply: (text) => text.replace(/([.!?])[ \t\n]+(?=[A-Z])/g, '$1\n\n'),
+  },
+  {
+    id: 'split-date-ranges',
+    name: 'Separate date ranges',
+    description: 'Puts ranges like "2019 - 2022" or "03/2020 - Present" on their own line.',
+    category: 'resume',
+    input: ['layout', 'flow'],
+    apply: (text) => text.replace(DATE_RANGE_REGEX, '\n\n$1 - $2\n'),
+  },
+  {
+    id: 'space-job-titles',
+    name: 'Separate job titles',
+    description: 'Adds a blank line before lines containing common job titles.',
+    category: 'resume',
+    input: ['layout'],
+    apply: (text) => text.replace(JOB_TITLE_REGEX, '\n\n$1$2'),
+  },
+  {
+    id: 'space-section-headers',
+    name: 'Separate section headers',
+    description: 'Puts resume headers such as "Experience" or "Skills:" on their own paragraph.',
+    category: 'resume',
+    input: ['layout', 'flow'],
+    apply: (text) => text
+      .replace(HEADER_LINE_REGEX, '$1\n\n$2:\n')
+      .replace(HEADER_INLINE_REGEX, '$1\n\n$2:\n\n'),
+  },
+  {
+    id: 'limit-blank-lines',
+    name: 'Limit blank lines',
+    description: 'Keeps at most one empty line between paragraphs and trims line ends.',
+    category: 'general',
+    input: ['layout', 'flow'],
+    apply: (text) => text.replace(/[ \t]+\n/g, '\n').replace(/\n[ \t]*(?:\n[ \t]*)+/g, '\n\n').trim(),
+  },
+];
+
+export const cleanupPipelines: Record<CleanupPipeline, string[]> = {
+  // Automatic cleanup of every extracted page, also used as the basic fallback
+  page: [
+    'strip-emoji',
+    'strip-page-break-markers',
+    'strip-bullets',
+    'strip-vertical-bars',
+    'join-hyphenated-lines',
+    'fix-spaced-letters',
+    'normalize-whitespace',
+    'join-broken-lines',
+    'split-date-ranges',
+    'space-job-titles',
+    'space-section-headers',
+    'sentence-paragraphs',
+    'limit-blank-lines',
+  ],
+  // "Format Text" in the text panel
+  format: [
+    'strip-emoji',
+    'strip-page-break-markers',
+    'strip-bullets',
+    'strip-vertical-bars',
+    'join-hyphenated-lines',
+    'fix-spaced-letters',
+    'collapse-whitespace',
+    'sentence-paragraphs',
+    'split-date-ranges',
+    'space-section-headers',
+    'limit-blank-lines',
+  ],
+};
+
+export const pipelineLabels: Record<CleanupPipeline, string> = {
+  page: 'Page extraction',
+  format: 'Format Text',
+};
+
+export const getCleanupRule = (id: string): CleanupRule | undefined =>
+  cleanupRules.find((rule) => rule.id === id);
+
+/**
+ * Run a pipeline over the text.
+ * Rules that are disabled, or whose input contract does not match the
+ * current shape of the text, are skipped and reported in the result.
+ */
+export const runCleanup = (
+  text: string,
+  pipeline: CleanupPipeline,
+  { disabledRules = [], shape = 'layout' }: CleanupOptions = {}
+): CleanupResult => {
+  const result: CleanupResult = { text: text ?? '', shape, applied: [], skipped: [] };
+  if (!result.text) return result;
+
+  for (const id of cleanupPipelines[pipeline]) {
+    const rule = getCleanupRule(id);
+    if (!rule) {
+      throw new Error(`Unknown cleanup rule "${id}" in pipeline "${pipeline}"`);
+    }
+    if (disabledRules.includes(id)) {
+      result.skipped.push({ id, reason: 'disabled' });
+      continue;
+    }
+    if (!rule.input.includes(result.shape)) {
+      result.skipped.push({ id, reason: 'shape' });
+      continue;
+    }
+    result.text = rule.apply(result.text);
+    result.shape = rule.output ?? result.shape;
+    result.applied.push(id);
+  }
+
+  result.text = result.text.trim();
+  return result;
+};
+
+/**
+ * Convenience wrapper returning only the cleaned text
+ */
+export const cleanText = (text: string, pipeline: CleanupPipeline, options?: CleanupOptions): string =>
+  runCleanup(text, pipeline, options).text;
@@ -0,0 +1,75 @@
+// Reviewable differences between a text and a proposed replacement for it
+import { diffLines, diffWordsWithSpace, type Change } from 'diff';
+
+export interface DiffHunk {
+  /** Position among the hunks, in text order */
+  index: number;
+  /** Character range of the hunk in the original text */
+  start: number;
+  end: number;
+  original: string;
+  proposed: string;
+}
+
+// Larger rewrites, or ones that take longer to compare (ms), are compared line by line
+const MAX_EDIT_LENGTH = 5000;
+const WORD_DIFF_TIMEOUT = 1000;
+
+// Changes separated by no more than this and without letters or digits form one hunk
+const MAX_MERGE_GAP = 3;
+
+/**
+ * The changes that turn the original into the proposed text, word by word.
+ * Changes with only punctuation or spaces between them are reviewed together,
+ * so "I am a" becoming "Iama" is a single hunk.
+ */
+export const diffText = (original: string, proposed: string): DiffHunk[] => {
+  const changes: Change[] =
+    diffWordsWithSpace(original, proposed, { maxEditLength: MAX_EDIT_LENGTH, timeout: WORD_DIFF_TIMEOUT }) ?? diffLines(original, proposed);
+
+  const hunks: Omit<DiffHunk, 'index'>[] = [];
+  let position = 0;
+  let current: Omit<DiffHunk, 'index'> | null = null;
+  changes.forEach((change) => {
+    if (!change.added && !change.removed) {
+      current = null;
+      position += change.value.length;
+      return;
+    }
+    if (!current) {
+      const previous = hunks[hunks.length - 1];
+      const gap = previous ? original.slice(previous.end, position) : '';
+      if (previous && gap.length <= MAX_MERGE_GAP && !/[\p{L}\p{N}]/u.test(gap)) {
+        previous.original += gap;
+        previous.proposed += gap;
+        previous.end = position;
+        current = previous;
+      } else {
+        current = { start: position, end: position, original: '', proposed: '' };
+        hunks.push(current);
+      }
+    }
+    if (change.removed) {
+      current.original += change.value;
+      current.end += change.value.length;
+      position += change.value.length;
+    } else {
+      current.proposed += change.value;
+    }
+  });
+
+  return hunks.map((hunk, index) => ({ ...hunk, index }));
+};
+
+/**
+ * The original text with the accepted hunks replaced by their proposed text
+ */
+export const applyHunks = (original: string, hunks: DiffHunk[], accepted: Set<number>): string => {
+  let result = '';
+  let position = 0;
+  hunks.forEach((hunk) => {
+    result += original.slice(position, hunk.start) + (accepted.has(hunk.index) ? hunk.proposed : hunk.original);
+    position = hunk.end;
+  });
+  return result + original.slice(position);
+};
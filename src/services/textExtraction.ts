@@ -0,0 +1,138 @@
+// Background text extraction: text layers are read in a Web Worker, scanned pages are OCR'd here
+import { pdfjs } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { PageModel } from '@/services/documentModel';
+import type { PageSize } from '@/services/pageExtraction';
+import { recognizePage } from '@/services/ocr';
+
+/** Message sent to the extraction worker */
+export interface ExtractionRequest {
+  data: ArrayBuffer;
+}
+
+/** Messages sent back by the extraction worker */
+export type ExtractionResponse =
+  | { type: 'loaded'; numPages: number }
+  | { type: 'page'; pageNumber: number; size: PageSize; model: PageModel | null }
+  | { type: 'page-error'; pageNumber: number; message: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export interface ExtractionProgress {
+  /** Pages that are finished, including OCR and failed pages */
+  completed: number;
+  total: number;
+}
+
+export interface OcrPageState {
+  status: 'running' | 'done' | 'failed';
+  confidence?: number;
+}
+
+export interface ExtractionHandlers {
+  onLoaded?: (numPages: number) => void;
+  onPage: (page: PageModel) => void;
+  onProgress?: (progress: ExtractionProgress) => void;
+  onOcrPage?: (pageNumber: number, state: OcrPageState) => void;
+  onDone?: () => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Extract the text of every page of `file` without touching the viewer.
+ * Returns a function that cancels the extraction; no handler is called after it.
+ */
+export const extractDocument = (file: File, handlers: ExtractionHandlers): (() => void) => {
+  const worker = new Worker(new URL('../workers/textExtraction.worker.ts', import.meta.url), { type: 'module' });
+  let cancelled = false;
+  let total = 0;
+  let completed = 0;
+  // OCR needs a canvas, so scanned pages are rendered here, one at a time
+  let ocrQueue: Promise<void> = Promise.resolve();
+  let ocrDocument: Promise<PDFDocumentProxy> | null = null;
+
+  const completePage = () => {
+    completed++;
+    handlers.onProgress?.({ completed, total });
+    if (completed >= total) {
+      handlers.onDone?.();
+    }
+  };
+
+  const fail = (error: Error) => {
+    if (cancelled) return;
+    cancel();
+    handlers.onError?.(error);
+  };
+
+  const queueOcr = (pageNumber: number) => {
+    ocrQueue = ocrQueue.then(async () => {
+      if (cancelled) return;
+      handlers.onOcrPage?.(pageNumber, { status: 'running' });
+      try {
+        ocrDocument ??= file.arrayBuffer().then((data) => pdfjs.getDocument({ data }).promise);
+        const page = await (await ocrDocument).getPage(pageNumber);
+        const model = await recognizePage(page, pageNumber);
+        if (cancelled) return;
+        handlers.onOcrPage?.(pageNumber, { status: 'done', confidence: model.confidence });
+        handlers.onPage(model);
+      } catch (error) {
+        if (cancelled) return;
+        console.error(`OCR failed for page ${pageNumber}:`, error);
+        handlers.onOcrPage?.(pageNumber, { status: 'failed' });
+      }
+      completePage();
+    });
+  };
+
+  worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+    if (cancelled) return;
+    const message = event.data;
+    switch (message.type) {
+      case 'loaded':
+        total = message.numPages;
+        handlers.onLoaded?.(total);
+        handlers.onProgress?.({ completed, total });
+        if (total === 0) handlers.onDone?.();
+        break;
+      case 'page':
+        if (message.model) {
+          handlers.onPage(message.model);
+          completePage();
+        } else {
+          queueOcr(message.pageNumber);
+        }
+        break;
+      case 'page-error':
+        console.error(`Text extraction failed for page ${message.pageNumber}:`, message.message);
+        completePage();
+        break;
+      case 'done':
+        worker.terminate();
+        break;
+      case 'error':
+        fail(new Error(message.message));
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    fail(new Error(event.message || 'Extraction worker failed to start'));
+  };
+
+  file.arrayBuffer()
+    .then((data) => {
+      if (cancelled) return;
+      const request: ExtractionRequest = { data };
+      worker.postMessage(request, [data]);
+    })
+    .catch(fail);
+
+  const cancel = () => {
+    cancelled = true;
+    worker.terminate();
+    ocrDocument?.then((pdf) => pdf.destroy()).catch(() => undefined);
+  };
+  return cancel;
+};
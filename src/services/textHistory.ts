@@ -0,0 +1,76 @@
+// Undo and redo of text panel edits, and named snapshots of the text
+
+/** Edited text of the changed pages, keyed by page number; empty for the unedited extraction */
+export type TextVersion = Record<number, string>;
+
+export interface TextHistory {
+  /** Earlier versions, most recent last */
+  past: TextVersion[];
+  /** Undone versions, most recently undone last */
+  future: TextVersion[];
+  /** When the last keystroke was recorded, so a burst of typing is undone as one step */
+  lastTypingAt: number | null;
+}
+
+/** Keystrokes merge into one step; anything else, such as a formatter run, is a step of its own */
+export type TextEditKind = 'typing' | 'replace';
+
+export interface TextSnapshot {
+  id: string;
+  name: string;
+  text: string;
+  createdAt: number;
+}
+
+// Steps kept per document
+const HISTORY_LIMIT = 100;
+
+// Typing after a pause this long (ms) starts a new step
+const TYPING_PAUSE = 1000;
+
+export const emptyHistory = (): TextHistory => ({ past: [], future: [], lastTypingAt: null });
+
+/**
+ * History after the text changed from `previous`. New edits clear the redo steps.
+ */
+export const recordEdit = (history: TextHistory, previous: TextVersion, kind: TextEditKind, now: number): TextHistory => {
+  const isTyping = kind === 'typing';
+  if (isTyping && history.lastTypingAt !== null && now - history.lastTypingAt < TYPING_PAUSE) {
+    return { past: history.past, future: [], lastTypingAt: now };
+  }
+  return {
+    past: [...history.past, previous].slice(-HISTORY_LIMIT),
+    future: [],
+    lastTypingAt: isTyping ? now : null,
+  };
+};
+
+/**
+ * Step back from the current version, or null when there is nothing to undo
+ */
+export const undoEdit = (history: TextHistory, current: TextVersion): { history: TextHistory; version: TextVersion } | null => {
+  if (!history.past.length) return null;
+  return {
+    version: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [...history.future, current], lastTypingAt: null },
+  };
+};
+
+/**
+ * Step forward again after an undo, or null when there is nothing to redo
+ */
+export const redoEdit = (history: TextHistory, current: TextVersion): { history: TextHistory; version: TextVersion } | null => {
+  if (!history.future.length) return null;
+  return {
+    version: history.future[history.future.length - 1],
+    history: { past: [...history.past, current], future: history.future.slice(0, -1), lastTypingAt: null },
+  };
+};
+
+/**
+ * Snapshots with the new one added; it replaces an earlier snapshot of the same name
+ */
+export const addSnapshot = (snapshots: TextSnapshot[], snapshot: TextSnapshot): TextSnapshot[] => [
+  ...snapshots.filter((existing) => existing.name.toLowerCase() !== snapshot.name.toLowerCase()),
+  snapshot,
+];
@@ -0,0 +1,127 @@
+// Write corrected text into the original PDF as an invisible, searchable text layer
+import {
+  PDFDocument,
+  PDFNumber,
+  PDFOperator,
+  PDFOperatorNames,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+  type PDFFont,
+  type PDFName,
+  type PDFPage,
+} from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { lineToText, type DocumentModel, type PageModel, type TextLine } from '@/services/documentModel';
+import { applyColumnLayout } from '@/services/readingOrder';
+import { pageTransform, toPdfPoint, type Matrix } from '@/services/pdfCoordinates';
+import { loadUnicodeFont } from '@/services/unicodeFont';
+import { alignWords } from '@/services/wordAlignment';
+
+interface LineSlot {
+  page: PageModel;
+  line: TextLine;
+  original: string;
+  /** Words of the corrected text that belong on this line */
+  words: string[];
+}
+
+// Horizontal scaling (percent) stays within these bounds when fitting a line to its box
+const MIN_SCALING = 10;
+const MAX_SCALING = 1000;
+
+/**
+ * Give each word of the corrected text to the line of the extracted word it
+ * matches. Inserted words join the line of the words they replace, or of the
+ * word before them.
+ */
+const assignWords = (slots: LineSlot[], correctedText: string) => {
+  const originalWords = slots.flatMap((slot, index) => slot.original.split(/\s+/).filter(Boolean).map(() => index));
+  const corrected = correctedText.match(/\S+/g) ?? [];
+  if (!originalWords.length) return;
+
+  const chunks = alignWords(slots.flatMap((slot) => slot.original.split(/\s+/).filter(Boolean)), corrected);
+  chunks.forEach(({ original: [originalStart, originalEnd], corrected: [start, end] }) => {
+    const targets = originalEnd > originalStart
+      ? originalWords.slice(originalStart, originalEnd)
+      : [originalWords[Math.max(0, originalStart - 1)]];
+    corrected.slice(start, end).forEach((word, index) => {
+      slots[targets[Math.floor((index * targets.length) / (end - start))]].words.push(word);
+    });
+  });
+};
+
+/**
+ * Draw text invisibly over the given line, stretched to the line's width
+ */
+export const drawInvisibleLine = (page: PDFPage, font: PDFFont, fontKey: PDFName, transform: Matrix, line: TextLine, text: string) => {
+  const fontSize = line.spans.reduce((sum, span) => sum + span.fontSize, 0) / line.spans.length;
+  if (!fontSize || !text) return;
+
+  const origin = toPdfPoint(transform, line.bbox.x, line.baseline);
+  // Reading direction of the line in PDF space
+  const [a, b, c, d] = transform;
+  const det = a * d - b * c;
+  const angle = Math.atan2(-b / det, d / det);
+  const naturalWidth = font.widthOfTextAtSize(text, fontSize);
+  const scaling = naturalWidth > 0
+    ? Math.min(MAX_SCALING, Math.max(MIN_SCALING, (line.bbox.width / naturalWidth) * 100))
+    : 100;
+
+  page.pushOperators(
+    pushGraphicsState(),
+    beginText(),
+    setFontAndSize(fontKey, fontSize),
+    setTextRenderingMode(TextRenderingMode.Invisible),
+    PDFOperator.of(PDFOperatorNames.SetTextHorizontalScaling, [PDFNumber.of(scaling)]),
+    setTextMatrix(Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), origin.x, origin.y),
+    showText(font.encodeText(text)),
+    endText(),
+    popGraphicsState()
+  );
+};
+
+/**
+ * The original PDF with the corrected text laid invisibly over each line of
+ * the pages read by OCR, so it can be selected and searched. Pages that
+ * already have text keep it: a second layer over it would be found twice.
+ * Each page's text is matched against that page's lines only, in the order
+ * the text panel reads them, so page separators never reach the PDF.
+ */
+export const addTextLayer = async (
+  file: File,
+  model: DocumentModel,
+  correctedPages: Record<number, string>,
+  { columnLayout = false }: { columnLayout?: boolean } = {}
+): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  pdf.registerFontkit(fontkit);
+  const font = await pdf.embedFont(await loadUnicodeFont(), { subset: true });
+
+  const slots: LineSlot[] = model.pages.filter((page) => page.source === 'ocr').flatMap((page) => {
+    const ordered = columnLayout ? applyColumnLayout(page) : page;
+    const pageSlots = ordered.blocks.flatMap((block) =>
+      block.lines.map((line) => ({ page, line, original: lineToText(line), words: [] })));
+    assignWords(pageSlots, correctedPages[page.pageNumber] ?? '');
+    return pageSlots;
+  });
+
+  const pages = pdf.getPages();
+  const fontKeys = new Map<PDFPage, PDFName>();
+  slots.forEach(({ page: pageModel, line, original, words }) => {
+    const page = pages[pageModel.pageNumber - 1];
+    const text = words.join(' ');
+    if (!page || !text) return;
+
+    if (!fontKeys.has(page)) fontKeys.set(page, page.node.newFontDictionary(font.name, font.ref));
+    drawInvisibleLine(page, font, fontKeys.get(page), pageTransform(page), line, text);
+  });
+
+  return pdf.save();
+};
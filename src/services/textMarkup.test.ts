@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { stripMarkup } from '@/services/textMarkup';
+
+describe('stripMarkup', () => {
+  it('removes heading and bold markers', () => {
+    expect(stripMarkup('## Results\nThe **total** is **12**.')).toBe('Results\nThe total is 12.');
+  });
+
+  it('keeps list markers and asterisks that are not markup', () => {
+    expect(stripMarkup('- item\n1. first\n#hashtag and 2 ** 3')).toBe('- item\n1. first\n#hashtag and 2 ** 3');
+  });
+});
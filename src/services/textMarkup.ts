@@ -0,0 +1,186 @@
+// Markdown-style markup in the text editor: headings, list items and bold text
+
+/** Part of a line to draw in a style of its own */
+export interface MarkupRange {
+  start: number;
+  end: number;
+  style: 'heading' | 'bold' | 'listMarker' | 'syntax';
+}
+
+/** Text after a formatting command, with the selection to restore */
+export interface MarkupEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export const HEADING_MARKER_REGEX = /^(#{1,6})[ \t]+/;
+const LIST_MARKER_REGEX = /^([ \t]*)([-*•]|\d{1,3}[.)])[ \t]+/;
+const BOLD_REGEX = /\*\*(?=\S)(.+?)(?<=\S)\*\*/g;
+
+/**
+ * Level and text of a heading line, or null for other lines
+ */
+export const parseHeading = (line: string): { level: number; text: string } | null => {
+  const match = line.match(HEADING_MARKER_REGEX);
+  return match ? { level: match[1].length, text: line.slice(match[0].length) } : null;
+};
+
+/**
+ * Stretches of a line with their weight; the bold markers are left out
+ */
+export const parseBold = (line: string): { text: string; bold: boolean }[] => {
+  const runs: { text: string; bold: boolean }[] = [];
+  let position = 0;
+  for (const match of line.matchAll(BOLD_REGEX)) {
+    if (match.index > position) runs.push({ text: line.slice(position, match.index), bold: false });
+    runs.push({ text: match[1], bold: true });
+    position = match.index + match[0].length;
+  }
+  if (position < line.length || !runs.length) runs.push({ text: line.slice(position), bold: false });
+  return runs;
+};
+
+/**
+ * The text without heading and bold markers, for exports that have no formatting
+ */
+export const stripMarkup = (text: string): string =>
+  text
+    .split('\n')
+    .map((line) => parseBold(line.replace(HEADING_MARKER_REGEX, '')).map((run) => run.text).join(''))
+    .join('\n');
+
+/**
+ * Ranges of the text to style: heading lines, list markers, bold text and the markers around it
+ */
+export const markupRanges = (text: string): MarkupRange[] => {
+  const ranges: MarkupRange[] = [];
+  let lineStart = 0;
+  text.split('\n').forEach((line) => {
+    const heading = line.match(HEADING_MARKER_REGEX);
+    const listMarker = heading ? null : line.match(LIST_MARKER_REGEX);
+    if (heading) {
+      ranges.push({ start: lineStart, end: lineStart + heading[0].length, style: 'syntax' });
+      ranges.push({ start: lineStart + heading[0].length, end: lineStart + line.length, style: 'heading' });
+    } else if (listMarker) {
+      const markerStart = lineStart + listMarker[1].length;
+      ranges.push({ start: markerStart, end: markerStart + listMarker[2].length, style: 'listMarker' });
+    }
+    for (const match of line.matchAll(BOLD_REGEX)) {
+      const start = lineStart + match.index;
+      const end = start + match[0].length;
+      ranges.push({ start, end: start + 2, style: 'syntax' });
+      ranges.push({ start: start + 2, end: end - 2, style: 'bold' });
+      ranges.push({ start: end - 2, end, style: 'syntax' });
+    }
+    lineStart += line.length + 1;
+  });
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Apply `transform` to every line the selection touches. A caret moves with
+ * the text of its line; a selection grows to cover the changed lines.
+ */
+const transformLines = (
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  transform: (lines: string[]) => string[]
+): MarkupEdit => {
+  const blockStart = text.lastIndexOf('\n', selectionStart - 1) + 1;
+  const lineEnd = text.indexOf('\n', Math.max(selectionStart, selectionEnd - (selectionEnd > selectionStart ? 1 : 0)));
+  const blockEnd = lineEnd < 0 ? text.length : lineEnd;
+  const lines = text.slice(blockStart, blockEnd).split('\n');
+  const block = transform(lines).join('\n');
+  const result = text.slice(0, blockStart) + block + text.slice(blockEnd);
+  if (selectionStart === selectionEnd && lines.length === 1) {
+    const caret = Math.max(blockStart, selectionStart + block.length - lines[0].length);
+    return { text: result, selectionStart: caret, selectionEnd: caret };
+  }
+  return { text: result, selectionStart: blockStart, selectionEnd: blockStart + block.length };
+};
+
+const stripLinePrefix = (line: string) => line.replace(HEADING_MARKER_REGEX, '').replace(LIST_MARKER_REGEX, '$1');
+
+/**
+ * Make the selected lines headings of the given level, or plain lines again
+ * when they already are. Level 0 removes heading markers.
+ */
+export const toggleHeading = (text: string, selectionStart: number, selectionEnd: number, level: number): MarkupEdit =>
+  transformLines(text, selectionStart, selectionEnd, (lines) => {
+    const isHeading = lines.every((line) => !line.trim() || parseHeading(line)?.level === level);
+    return lines.map((line) => {
+      if (!line.trim()) return line;
+      const content = stripLinePrefix(line).trimStart();
+      return level > 0 && !isHeading ? `${'#'.repeat(level)} ${content}` : content;
+    });
+  });
+
+/**
+ * Make the selected lines bulleted or numbered list items, or plain lines
+ * again when they already are. Blank lines are left alone.
+ */
+export const toggleList = (text: string, selectionStart: number, selectionEnd: number, ordered: boolean): MarkupEdit =>
+  transformLines(text, selectionStart, selectionEnd, (lines) => {
+    const isList = lines.every((line) => {
+      const marker = line.match(LIST_MARKER_REGEX)?.[2];
+      return !line.trim() || (marker !== undefined && /\d/.test(marker) === ordered);
+    });
+    let number = 0;
+    return lines.map((line) => {
+      if (!line.trim()) return line;
+      const content = stripLinePrefix(line);
+      if (isList) return content;
+      const indent = content.match(/^[ \t]*/)[0];
+      number++;
+      return `${indent}${ordered ? `${number}.` : '-'} ${content.slice(indent.length)}`;
+    });
+  });
+
+/**
+ * Wrap the selection in bold markers, or remove the markers around it. A
+ * caret inside bold text unbolds it; elsewhere it gets an empty pair to type into.
+ */
+export const toggleBold = (text: string, selectionStart: number, selectionEnd: number): MarkupEdit => {
+  if (selectionStart === selectionEnd) {
+    const lineStart = text.lastIndexOf('\n', selectionStart - 1) + 1;
+    const lineEnd = text.indexOf('\n', selectionStart);
+    const line = text.slice(lineStart, lineEnd < 0 ? text.length : lineEnd);
+    for (const match of line.matchAll(BOLD_REGEX)) {
+      const start = lineStart + match.index;
+      const end = start + match[0].length;
+      if (selectionStart < start || selectionStart > end) continue;
+      const caret = Math.min(Math.max(selectionStart - 2, start), end - 4);
+      return { text: text.slice(0, start) + match[1] + text.slice(end), selectionStart: caret, selectionEnd: caret };
+    }
+    return { text: `${text.slice(0, selectionStart)}****${text.slice(selectionStart)}`, selectionStart: selectionStart + 2, selectionEnd: selectionStart + 2 };
+  }
+
+  // Markers just outside the selection, or selected along with it
+  if (text.slice(selectionStart - 2, selectionStart) === '**' && text.slice(selectionEnd, selectionEnd + 2) === '**') {
+    return {
+      text: text.slice(0, selectionStart - 2) + text.slice(selectionStart, selectionEnd) + text.slice(selectionEnd + 2),
+      selectionStart: selectionStart - 2,
+      selectionEnd: selectionEnd - 2,
+    };
+  }
+  const selected = text.slice(selectionStart, selectionEnd);
+  if (selected.length > 4 && selected.startsWith('**') && selected.endsWith('**')) {
+    return {
+      text: text.slice(0, selectionStart) + selected.slice(2, -2) + text.slice(selectionEnd),
+      selectionStart,
+      selectionEnd: selectionEnd - 4,
+    };
+  }
+
+  // Markers must touch the text, so surrounding spaces stay outside
+  const [, before, inner, after] = selected.match(/^(\s*)(.*?)(\s*)$/s);
+  if (!inner) return { text, selectionStart, selectionEnd };
+  const start = selectionStart + before.length + 2;
+  return {
+    text: `${text.slice(0, selectionStart)}${before}**${inner}**${after}${text.slice(selectionEnd)}`,
+    selectionStart: start,
+    selectionEnd: start + inner.length,
+  };
+};
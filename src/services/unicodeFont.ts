@@ -0,0 +1,19 @@
+// DejaVu Sans, embedded in generated PDFs so text in most scripts survives
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+
+// The font is ~750 KB, so it is only fetched for the first export that needs it
+let fontBytes: Promise<Uint8Array> | null = null;
+
+export const loadUnicodeFont = (): Promise<Uint8Array> => {
+  fontBytes ??= fetch(dejaVuSansUrl)
+    .then((response) => {
+      if (!response.ok) throw new Error(`Font request failed with status ${response.status}`);
+      return response.arrayBuffer();
+    })
+    .then((buffer) => new Uint8Array(buffer))
+    .catch((error) => {
+      fontBytes = null;
+      throw error;
+    });
+  return fontBytes;
+};
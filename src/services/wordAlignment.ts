@@ -0,0 +1,59 @@
+// Word-level alignment between extracted text and an edited version of it
+import { diffArrays } from 'diff';
+
+/** Original words [start, end) that became corrected words [start, end) */
+export interface AlignedChunk {
+  original: [number, number];
+  corrected: [number, number];
+}
+
+// Larger rewrites are aligned by position instead of word by word
+const MAX_EDIT_LENGTH = 20000;
+
+export const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Chunks covering both word lists in order. Unchanged words get a chunk each;
+ * words that were replaced, removed or inserted together share one.
+ */
+export const alignWords = (original: string[], corrected: string[]): AlignedChunk[] => {
+  const changes = diffArrays(original.map(normalizeWord), corrected.map(normalizeWord), { maxEditLength: MAX_EDIT_LENGTH });
+  if (!changes) {
+    return corrected.map((_, index) => {
+      const start = Math.floor((index * original.length) / corrected.length);
+      const end = Math.max(start + 1, Math.ceil(((index + 1) * original.length) / corrected.length));
+      return { original: [start, Math.min(end, original.length)], corrected: [index, index + 1] };
+    });
+  }
+
+  const chunks: AlignedChunk[] = [];
+  let originalIndex = 0;
+  let correctedIndex = 0;
+  let pending: AlignedChunk | null = null;
+  const flush = () => {
+    if (pending) chunks.push(pending);
+    pending = null;
+  };
+
+  changes.forEach((change) => {
+    if (change.removed || change.added) {
+      pending ??= { original: [originalIndex, originalIndex], corrected: [correctedIndex, correctedIndex] };
+      if (change.removed) {
+        originalIndex += change.count;
+        pending.original[1] = originalIndex;
+      } else {
+        correctedIndex += change.count;
+        pending.corrected[1] = correctedIndex;
+      }
+      return;
+    }
+    flush();
+    for (let index = 0; index < change.count; index++) {
+      chunks.push({ original: [originalIndex + index, originalIndex + index + 1], corrected: [correctedIndex + index, correctedIndex + index + 1] });
+    }
+    originalIndex += change.count;
+    correctedIndex += change.count;
+  });
+  flush();
+  return chunks;
+};
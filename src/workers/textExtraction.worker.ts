@@ -0,0 +1,37 @@
+/// <reference lib="webworker" />
+// Loads a PDF and extracts the text of every page off the main thread
+import { getDocument } from 'pdfjs-dist';
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs';
+import { extractPage } from '@/services/pageExtraction';
+import type { ExtractionRequest, ExtractionResponse } from '@/services/textExtraction';
+
+// pdf.js cannot start its own worker from here; this makes it parse in this thread
+(globalThis as typeof globalThis & { pdfjsWorker: unknown }).pdfjsWorker = pdfjsWorker;
+
+const post = (message: ExtractionResponse) => self.postMessage(message);
+
+const extract = async (data: ArrayBuffer) => {
+  // No DOM in a worker: skip font face loading, span font names still resolve
+  const pdf = await getDocument({ data, disableFontFace: true }).promise;
+  post({ type: 'loaded', numPages: pdf.numPages });
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    try {
+      const page = await pdf.getPage(pageNumber);
+      const { size, model } = await extractPage(page, pageNumber);
+      page.cleanup();
+      post({ type: 'page', pageNumber, size, model });
+    } catch (error) {
+      post({ type: 'page-error', pageNumber, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  await pdf.destroy();
+  post({ type: 'done' });
+};
+
+self.onmessage = (event: MessageEvent<ExtractionRequest>) => {
+  extract(event.data.data).catch((error) => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};
@@ -4,6 +4,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { viteStaticCopy } from "vite-plugin-static-copy";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -17,6 +18,14 @@ export default defineConfig(({ mode }) => ({
   plugins: [
     react(),
     mode === 'development' && componentTagger(),
+    // Serve the OCR worker, WebAssembly core and English model locally so OCR works offline
+    viteStaticCopy({
+      targets: [
+        { src: "node_modules/tesseract.js/dist/worker.min.js", dest: "tesseract" },
+        { src: "node_modules/tesseract.js-core/tesseract-core*-lstm.wasm.js", dest: "tesseract/core" },
+        { src: "node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz", dest: "tesseract/lang" },
+      ],
+    }),
   ].filter(Boolean),
   resolve: {
     alias: {